@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+import { transformSync } from '@babel/core';
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import babelPluginSmartEffect from './plugins/babel';
+import { CustomHookConfig, mightUseSmartEffects } from './plugins/hooks';
+import { Diagnostic, RuleSeverities, formatDiagnosticsJSON } from './plugins/diagnostics';
+
+export interface CliConfig {
+  /** Per-rule severity: 'error', 'warning' or 'off' */
+  rules?: RuleSeverities;
+  customHooks?: CustomHookConfig[];
+  exhaustiveDeps?: boolean;
+}
+
+export interface CliIO {
+  cwd: string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+interface CliArgs {
+  command?: string;
+  patterns: string[];
+  format: 'human' | 'json';
+  fix: boolean;
+  config?: string;
+  failOn: 'error' | 'warning' | 'none';
+}
+
+export interface AnalyzeResult {
+  diagnostics: Diagnostic[];
+  /** Files rewritten by --fix */
+  fixed: string[];
+  /** Files that could not be parsed, with the parser message */
+  failures: Array<{ filename: string; message: string }>;
+}
+
+const CONFIG_FILES = ['smart-effect.config.js', 'smart-effect.config.json'];
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+const USAGE = `Usage: react-smart-effect analyze [options] <globs...>
+
+Options:
+  --format <human|json>        Output format (default: human)
+  --fix                        Rewrite files with the plugin's autofix
+  --config <file>              Config file with rules and customHooks
+                               (default: ${CONFIG_FILES.join(' or ')})
+  --fail-on <error|warning|none>
+                               Lowest severity that fails the run (default: error)
+  --help                       Show this message`;
+
+/**
+ * Run the CLI and return its exit code: 0 when clean, 1 when findings reach
+ * the --fail-on severity, 2 on usage, config or parse errors
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO()): number {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.command === 'help') {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (args.command !== 'analyze' || args.patterns.length === 0) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let config: CliConfig;
+  try {
+    config = loadConfig(args.config, io.cwd);
+  } catch (error) {
+    io.stderr(`[react-smart-effect] ${(error as Error).message}`);
+    return 2;
+  }
+
+  const files = expandPatterns(args.patterns, io.cwd);
+  if (files.length === 0) {
+    io.stderr(`[react-smart-effect] No files match ${args.patterns.join(' ')}`);
+    return 2;
+  }
+
+  const result = analyzeFiles(files, { ...config, fix: args.fix, cwd: io.cwd });
+
+  io.stdout(args.format === 'json' ? formatDiagnosticsJSON(result.diagnostics) : formatHumanReport(result));
+  result.failures.forEach(failure => io.stderr(`[react-smart-effect] ${failure.filename}: ${failure.message}`));
+
+  if (result.failures.length > 0) return 2;
+  const failing = result.diagnostics.filter(d =>
+    args.failOn === 'warning' || (args.failOn === 'error' && d.severity === 'error')
+  );
+  return failing.length > 0 ? 1 : 0;
+}
+
+/**
+ * Analyze files with the Babel plugin's rules; with `fix`, apply its autofix
+ * as text edits so formatting outside the rewrites is preserved
+ */
+export function analyzeFiles(
+  files: string[],
+  options: CliConfig & { fix?: boolean; cwd?: string } = {}
+): AnalyzeResult {
+  const { fix = false, cwd = process.cwd(), rules, customHooks, exhaustiveDeps } = options;
+  const result: AnalyzeResult = { diagnostics: [], fixed: [], failures: [] };
+
+  files.forEach(file => {
+    const filename = resolve(cwd, file);
+    const code = readFileSync(filename, 'utf8');
+    if (!mightUseSmartEffects(code, customHooks)) return;
+
+    let metadata: { smartEffectDiagnostics?: Diagnostic[]; smartEffectFixedCode?: string } | undefined;
+    try {
+      metadata = transformSync(code, {
+        filename,
+        cwd,
+        babelrc: false,
+        configFile: false,
+        code: false,
+        plugins: [
+          [babelPluginSmartEffect, {
+            quiet: true,
+            warnOnly: true,
+            rules,
+            customHooks,
+            exhaustiveDeps,
+            injectIds: false,
+            autoFix: fix,
+            dryRun: fix
+          }]
+        ],
+        parserOpts: {
+          sourceType: 'module',
+          allowImportExportEverywhere: true,
+          plugins: ['jsx', 'typescript', 'decorators-legacy', 'classProperties']
+        }
+      })?.metadata as typeof metadata;
+    } catch (error) {
+      result.failures.push({ filename: toRelative(cwd, filename), message: (error as Error).message });
+      return;
+    }
+
+    result.diagnostics.push(...(metadata?.smartEffectDiagnostics || []));
+    if (metadata?.smartEffectFixedCode !== undefined) {
+      writeFileSync(filename, metadata.smartEffectFixedCode);
+      result.fixed.push(toRelative(cwd, filename));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Resolve files, directories and glob patterns (`*`, `**`, `?`, `{a,b}`) to
+ * source files; node_modules and dot directories are never searched
+ */
+export function expandPatterns(patterns: string[], cwd: string): string[] {
+  const files = new Set<string>();
+
+  patterns.forEach(pattern => {
+    const normalized = pattern.replace(/\\/g, '/');
+    const magic = normalized.search(/[*?{]/);
+
+    if (magic === -1) {
+      const path = resolve(cwd, normalized);
+      if (!existsSync(path)) return;
+      if (statSync(path).isDirectory()) {
+        walk(path).filter(file => SOURCE_FILE.test(file)).forEach(file => files.add(file));
+      } else {
+        files.add(path);
+      }
+      return;
+    }
+
+    // Search from the directory part before the first wildcard
+    const base = normalized.slice(0, normalized.lastIndexOf('/', magic) + 1) || '.';
+    const matcher = globToRegExp(toRelative(cwd, resolve(cwd, normalized)));
+    const root = resolve(cwd, base);
+    if (!existsSync(root)) return;
+
+    walk(root)
+      .filter(file => SOURCE_FILE.test(file) && matcher.test(toRelative(cwd, file)))
+      .forEach(file => files.add(file));
+  });
+
+  return Array.from(files).sort();
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { patterns: [], format: 'human', fix: false, failOn: 'error' };
+  const readValue = (index: number, flag: string) => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`Missing value for ${flag}`);
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      args.command = 'help';
+    } else if (arg === '--fix') {
+      args.fix = true;
+    } else if (arg === '--format') {
+      const format = readValue(i++, arg);
+      if (format !== 'human' && format !== 'json') throw new Error(`Unknown format '${format}'`);
+      args.format = format;
+    } else if (arg === '--config') {
+      args.config = readValue(i++, arg);
+    } else if (arg === '--fail-on') {
+      const failOn = readValue(i++, arg);
+      if (failOn !== 'error' && failOn !== 'warning' && failOn !== 'none') {
+        throw new Error(`Unknown severity '${failOn}'`);
+      }
+      args.failOn = failOn;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option '${arg}'`);
+    } else if (!args.command) {
+      args.command = arg;
+    } else {
+      args.patterns.push(arg);
+    }
+  }
+
+  return args;
+}
+
+// Explicit config files must exist; the default names are optional
+function loadConfig(file: string | undefined, cwd: string): CliConfig {
+  const path = file
+    ? resolve(cwd, file)
+    : CONFIG_FILES.map(name => join(cwd, name)).find(candidate => existsSync(candidate));
+
+  if (!path) return {};
+  if (!existsSync(path)) throw new Error(`Config file not found: ${file}`);
+
+  const loaded = path.endsWith('.json') ? JSON.parse(readFileSync(path, 'utf8')) : require(path);
+  return (loaded && loaded.default) || loaded || {};
+}
+
+function formatHumanReport(result: AnalyzeResult): string {
+  const byFile = new Map<string, Diagnostic[]>();
+  result.diagnostics.forEach(d => byFile.set(d.filename, (byFile.get(d.filename) || []).concat(d)));
+
+  const lines: string[] = [];
+  byFile.forEach((diagnostics, filename) => {
+    lines.push(filename);
+    diagnostics.forEach(d => {
+      lines.push(`  ${pad(`${d.line}:${d.column}`, 8)}${pad(d.severity, 9)}${d.message}  ${d.rule}`);
+      if (d.suggestion) lines.push(`  ${pad('', 17)}${d.suggestion}`);
+    });
+    lines.push('');
+  });
+
+  const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+  lines.push(
+    result.diagnostics.length > 0
+      ? `${plural(result.diagnostics.length, 'problem')} (${plural(errors, 'error')}, ${plural(result.diagnostics.length - errors, 'warning')})`
+      : 'No problems found'
+  );
+  if (result.fixed.length > 0) {
+    lines.push(`Fixed ${plural(result.fixed.length, 'file')}: ${result.fixed.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+function pad(text: string, width: number): string {
+  return text.length >= width ? `${text} ` : text + ' '.repeat(width - text.length);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, end).split(',').map(escape).join('|')})`;
+      i = end;
+    } else {
+      source += escape(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).reduce<string[]>((files, entry) => {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) return files;
+
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? files.concat(walk(path)) : files.concat(path);
+  }, []);
+}
+
+function toRelative(cwd: string, path: string): string {
+  return relative(cwd, path).replace(/\\/g, '/');
+}
+
+function defaultIO(): CliIO {
+  return {
+    cwd: process.cwd(),
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`)
+  };
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
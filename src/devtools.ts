@@ -1,157 +1,259 @@
-import { EffectReport, DevToolsState } from './types';
+import { EffectReport, DevToolsState, EffectLogger, EffectReportStore, EffectReportStoreOptions } from './types';
+import { dispatchReport } from './sinks';
+import { getLogger } from './logger';
 
-// Global state for DevTools integration
-let devToolsState: DevToolsState = {
-  effects: new Map(),
-  isEnabled: typeof window !== 'undefined' && process.env.NODE_ENV === 'development'
+// Bounds for stored history, configurable through configureReportHistory
+let historyLimits = {
+  perEffect: 50,
+  global: 1000
 };
 
+/**
+ * Create a report store with its own reports, history, log and enable flag,
+ * e.g. one per SSR request or micro-frontend (see SmartEffectProvider)
+ */
+export function createEffectReportStore(options: EffectReportStoreOptions = {}): EffectReportStore {
+  const { enabled = process.env.NODE_ENV === 'development', publish = false } = options;
+  const state: DevToolsState = {
+    effects: new Map(),
+    history: new Map(),
+    log: [],
+    isEnabled: enabled
+  };
+  // Updated copies of reports, so updates aimed at an earlier report find its current version
+  const replacements = new WeakMap<EffectReport, EffectReport>();
+
+  const store: EffectReportStore = {
+    isEnabled() {
+      return state.isEnabled;
+    },
+
+    enable(enabled = true) {
+      state.isEnabled = enabled;
+    },
+
+    report(report) {
+      store.store(report);
+      if (publish) forwardReport(report);
+    },
+
+    update(id, update, report) {
+      let existing = report || state.effects.get(id);
+      while (existing && replacements.has(existing)) existing = replacements.get(existing);
+      // Kept local: sinks and DevTools receive each render's report once, not every update to it
+      if (existing) store.store({ ...existing, ...update }, existing);
+    },
+
+    store(report, replaces) {
+      if (replaces) replacements.set(replaces, report);
+      // Updating an earlier report leaves the latest one in place
+      if (!replaces || state.effects.get(report.id) === replaces || !state.effects.has(report.id)) {
+        state.effects.set(report.id, report);
+      }
+
+      const history = state.history.get(report.id) || [];
+      const historyIndex = replaces ? history.lastIndexOf(replaces) : -1;
+      if (historyIndex !== -1) {
+        history[historyIndex] = report;
+      } else {
+        history.push(report);
+        if (history.length > historyLimits.perEffect) history.shift();
+      }
+      state.history.set(report.id, history);
+
+      const logIndex = replaces ? state.log.lastIndexOf(replaces) : -1;
+      if (logIndex !== -1) {
+        state.log[logIndex] = report;
+      } else {
+        state.log.push(report);
+        if (state.log.length > historyLimits.global) state.log.shift();
+      }
+
+      // Limit stored effects to prevent memory leaks
+      if (state.effects.size > 1000) {
+        const oldestKey = state.effects.keys().next().value;
+        if (oldestKey) {
+          state.effects.delete(oldestKey);
+          state.history.delete(oldestKey);
+        }
+      }
+    },
+
+    getReports() {
+      return Array.from(state.effects.values());
+    },
+
+    getReport(id) {
+      return state.effects.get(id);
+    },
+
+    getHistory(id) {
+      return [...(state.history.get(id) || [])];
+    },
+
+    getLog() {
+      return [...state.log];
+    },
+
+    clear() {
+      state.effects.clear();
+      state.history.clear();
+      state.log = [];
+    }
+  };
+
+  return store;
+}
+
+// Hand a report to the registered sinks and the browser DevTools bridge
+function forwardReport(report: EffectReport): void {
+  dispatchReport(report);
+
+  // Send to browser DevTools if available
+  const bridge = typeof window !== 'undefined' ? (window as any).__REACT_SMART_EFFECT_DEVTOOLS__ : undefined;
+  if (bridge && typeof bridge.postMessage === 'function') {
+    bridge.postMessage({
+      type: 'EFFECT_REPORT',
+      payload: report
+    });
+  }
+}
+
+// Global store used outside any SmartEffectProvider
+const globalStore = createEffectReportStore({
+  enabled: typeof window !== 'undefined' && process.env.NODE_ENV === 'development',
+  publish: true
+});
+
+/**
+ * The store that effects report to when no SmartEffectProvider supplies one
+ */
+export function getGlobalReportStore(): EffectReportStore {
+  return globalStore;
+}
+
 /**
  * Enable or disable DevTools reporting
  */
 export function enableDevTools(enabled: boolean = true): void {
-  devToolsState.isEnabled = enabled;
+  globalStore.enable(enabled);
+}
+
+/**
+ * Whether DevTools reporting is currently enabled
+ */
+export function isDevToolsEnabled(): boolean {
+  return globalStore.isEnabled();
+}
+
+/**
+ * Configure how many reports are kept per effect and in the global log
+ */
+export function configureReportHistory(limits: { perEffect?: number; global?: number }): void {
+  historyLimits = { ...historyLimits, ...limits };
 }
 
 /**
  * Report effect execution to DevTools
  */
 export function reportToDevTools(report: EffectReport): void {
-  if (!devToolsState.isEnabled) {
-    return;
-  }
-
-  // Store the report
-  devToolsState.effects.set(report.id, report);
+  if (globalStore.isEnabled()) globalStore.report(report);
+}
 
-  // Send to browser DevTools if available
-  if (typeof window !== 'undefined' && (window as any).__REACT_SMART_EFFECT_DEVTOOLS__) {
-    (window as any).__REACT_SMART_EFFECT_DEVTOOLS__.postMessage({
-      type: 'EFFECT_REPORT',
-      payload: report
-    });
-  }
+/**
+ * Update the stored report of an effect with information gathered after render
+ */
+export function updateEffectReport(id: string, update: Partial<EffectReport>): void {
+  if (globalStore.isEnabled()) globalStore.update(id, update);
+}
 
-  // Limit stored reports to prevent memory leaks
-  if (devToolsState.effects.size > 1000) {
-    const oldestKey = devToolsState.effects.keys().next().value;
-    if (oldestKey) {
-      devToolsState.effects.delete(oldestKey);
-    }
-  }
+/**
+ * Store a report in the latest-report map, its effect's ring buffer and the
+ * global log. A report derived from an earlier one replaces it in place.
+ */
+export function storeReport(report: EffectReport, replaces?: EffectReport): void {
+  globalStore.store(report, replaces);
 }
 
 /**
  * Get all effect reports
  */
 export function getEffectReports(): EffectReport[] {
-  return Array.from(devToolsState.effects.values());
+  return globalStore.getReports();
 }
 
 /**
  * Get effect report by ID
  */
 export function getEffectReport(id: string): EffectReport | undefined {
-  return devToolsState.effects.get(id);
+  return globalStore.getReport(id);
+}
+
+/**
+ * Get the stored history of an effect, oldest first
+ */
+export function getEffectHistory(id: string): EffectReport[] {
+  return globalStore.getHistory(id);
+}
+
+/**
+ * Get reports from the global log within a time range (inclusive)
+ */
+export function getReportsInRange(start: number, end: number = Date.now()): EffectReport[] {
+  return globalStore.getLog().filter(report => report.timestamp >= start && report.timestamp <= end);
+}
+
+/**
+ * Get the global chronological report log
+ */
+export function getEffectLog(): EffectReport[] {
+  return globalStore.getLog();
+}
+
+/**
+ * Get the effects with the slowest bodies, slowest first
+ */
+export function getSlowestEffects(limit: number = 10): EffectReport[] {
+  return getEffectReports()
+    .filter(report => report.timing?.effectDuration !== undefined)
+    .sort((a, b) => (b.timing?.effectDuration ?? 0) - (a.timing?.effectDuration ?? 0))
+    .slice(0, limit);
 }
 
 /**
  * Clear all effect reports
  */
 export function clearEffectReports(): void {
-  devToolsState.effects.clear();
+  globalStore.clear();
 }
 
 /**
- * Generate a visual graph of effects (console output)
+ * Generate a visual graph of effects (console output by default, see configureLogger).
+ * With history enabled, each effect also lists its recorded timeline.
  */
-export function generateEffectGraph(): void {
-  if (!devToolsState.isEnabled) {
-    console.warn('DevTools not enabled. Call enableDevTools(true) first.');
+export function generateEffectGraph(options: { history?: boolean; logger?: EffectLogger } = {}): void {
+  const logger = getLogger(options.logger);
+
+  if (!globalStore.isEnabled()) {
+    logger.log('warn', { type: 'notice', message: 'DevTools not enabled. Call enableDevTools(true) first.' });
     return;
   }
 
   const reports = getEffectReports();
   
   if (reports.length === 0) {
-    console.log('No effects to display.');
+    logger.log('info', { type: 'notice', message: 'No effects to display.' });
     return;
   }
 
-  console.group('🔍 React Smart Effect - Effect Graph');
-  
-  reports.forEach(report => {
-    const status = report.triggered ? '✅ Triggered' : '⏭️ Skipped';
-    const changedCount = report.dependencies.changed.filter(Boolean).length;
-    
-    console.group(`${status} ${report.id} (Render #${report.renderCount})`);
-    console.log('Timestamp:', new Date(report.timestamp).toLocaleTimeString());
-    console.log('Dependencies changed:', changedCount);
-    
-    if (report.dependencies.current.length > 0) {
-      console.table(
-        report.dependencies.current.map((dep, index) => ({
-          Index: index,
-          Current: typeof dep === 'object' ? JSON.stringify(dep) : String(dep),
-          Previous: typeof report.dependencies.previous[index] === 'object' 
-            ? JSON.stringify(report.dependencies.previous[index])
-            : String(report.dependencies.previous[index]),
-          Changed: report.dependencies.changed[index] ? '✅' : '❌'
-        }))
-      );
-    }
-    
-    console.groupEnd();
+  logger.log('info', {
+    type: 'effect-graph',
+    reports,
+    ...(options.history && {
+      history: reports.reduce<Record<string, EffectReport[]>>((all, report) => {
+        all[report.id] = getEffectHistory(report.id);
+        return all;
+      }, {})
+    })
   });
-  
-  console.groupEnd();
 }
-
-/**
- * Initialize DevTools panel (for browser extension)
- */
-export function initializeDevToolsPanel(): void {
-  if (typeof window === 'undefined') {
-    return;
-  }
-
-  // Create global hook for DevTools extension
-  (window as any).__REACT_SMART_EFFECT_DEVTOOLS__ = {
-    getReports: getEffectReports,
-    getReport: getEffectReport,
-    clearReports: clearEffectReports,
-    generateGraph: generateEffectGraph,
-    enable: enableDevTools,
-    version: '1.0.0'
-  };
-
-  // Listen for DevTools messages
-  window.addEventListener('message', (event) => {
-    if (event.data.source !== 'react-smart-effect-devtools') {
-      return;
-    }
-
-    switch (event.data.type) {
-      case 'GET_REPORTS':
-        window.postMessage({
-          source: 'react-smart-effect-app',
-          type: 'REPORTS_RESPONSE',
-          payload: getEffectReports()
-        }, '*');
-        break;
-      case 'CLEAR_REPORTS':
-        clearEffectReports();
-        break;
-      case 'GENERATE_GRAPH':
-        generateEffectGraph();
-        break;
-    }
-  });
-
-  console.log('🔍 React Smart Effect DevTools initialized');
-}
-
-// Auto-initialize in development
-if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
-  initializeDevToolsPanel();
-}
\ No newline at end of file
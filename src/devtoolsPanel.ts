@@ -0,0 +1,265 @@
+import {
+  DevToolsCapability,
+  DevToolsErrorCode,
+  DevToolsPanelOptions,
+  DevToolsRequestMessage,
+  DevToolsResponse,
+  DevToolsResponseMessage,
+  EffectReport
+} from './types';
+import {
+  clearEffectReports,
+  enableDevTools,
+  generateEffectGraph,
+  getEffectHistory,
+  getEffectReport,
+  getEffectReports,
+  getReportsInRange,
+  getSlowestEffects
+} from './devtools';
+import { buildEffectGraph } from './graph';
+import { getLogger } from './logger';
+import { createReportFilter, registerReportSink } from './sinks';
+import { toSerializable } from './utils';
+
+export const DEVTOOLS_PROTOCOL_VERSION = 2;
+
+const ALL_CAPABILITIES: DevToolsCapability[] = ['reports', 'graph', 'subscribe', 'filter', 'toggle'];
+
+const REQUIRED_CAPABILITY: Record<Exclude<DevToolsRequestMessage['type'], 'HANDSHAKE'>, DevToolsCapability> = {
+  GET_REPORTS: 'reports',
+  CLEAR_REPORTS: 'reports',
+  GENERATE_GRAPH: 'graph',
+  SUBSCRIBE: 'subscribe',
+  UNSUBSCRIBE: 'subscribe',
+  SET_FILTER: 'filter',
+  SET_ENABLED: 'toggle'
+};
+
+const REDACTED = '[Redacted]';
+
+interface PanelSession {
+  capabilities: DevToolsCapability[];
+  matches: (report: EffectReport) => boolean;
+  unsubscribe?: () => void;
+}
+
+/**
+ * Initialize DevTools panel (for browser extension).
+ * Only messages from allowed origins are answered, and only after a handshake.
+ * Returns a function that removes the listener and ends all subscriptions.
+ */
+export function initializeDevToolsPanel(options: DevToolsPanelOptions = {}): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const allowedOrigins = options.allowedOrigins || [window.location.origin];
+  const offeredCapabilities = options.capabilities || ALL_CAPABILITIES;
+  const sessions = new Map<MessageEventSource, PanelSession>();
+
+  // Create global hook for DevTools extension
+  (window as any).__REACT_SMART_EFFECT_DEVTOOLS__ = {
+    getReports: getEffectReports,
+    getReport: getEffectReport,
+    getHistory: getEffectHistory,
+    getReportsInRange,
+    getSlowestEffects,
+    clearReports: clearEffectReports,
+    generateGraph: generateEffectGraph,
+    enable: enableDevTools,
+    version: '1.0.0',
+    protocol: DEVTOOLS_PROTOCOL_VERSION
+  };
+
+  const redactReports = (reports: EffectReport[]) =>
+    toSerializable(reports.map(report => redactReport(report, options)));
+
+  const handleMessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (!message || message.source !== 'react-smart-effect-devtools') {
+      return;
+    }
+    if (!allowedOrigins.includes(event.origin) || !event.source) {
+      return;
+    }
+
+    const target = event.source;
+    const reply = (response: DevToolsResponse) => {
+      const envelope: DevToolsResponseMessage = {
+        ...response,
+        source: 'react-smart-effect-app',
+        protocol: DEVTOOLS_PROTOCOL_VERSION,
+        ...(typeof message.id === 'string' && { replyTo: message.id })
+      };
+      (target as Window).postMessage(envelope, event.origin);
+    };
+    const fail = (code: DevToolsErrorCode, text: string) =>
+      reply({ type: 'ERROR', payload: { code, message: text } });
+
+    if (!isRequestMessage(message)) {
+      fail('INVALID_MESSAGE', 'Malformed DevTools request');
+      return;
+    }
+
+    if (message.type === 'HANDSHAKE') {
+      if (!message.payload.protocols.includes(DEVTOOLS_PROTOCOL_VERSION)) {
+        fail('UNSUPPORTED_PROTOCOL', `Protocol ${DEVTOOLS_PROTOCOL_VERSION} is required`);
+        return;
+      }
+
+      const requested = message.payload.capabilities || ALL_CAPABILITIES;
+      const capabilities = offeredCapabilities.filter(capability => requested.includes(capability));
+      sessions.get(target)?.unsubscribe?.();
+      sessions.set(target, { capabilities, matches: () => true });
+
+      reply({
+        type: 'HANDSHAKE_ACK',
+        payload: { protocol: DEVTOOLS_PROTOCOL_VERSION, capabilities, version: '1.0.0' }
+      });
+      return;
+    }
+
+    if (message.protocol !== DEVTOOLS_PROTOCOL_VERSION) {
+      fail('UNSUPPORTED_PROTOCOL', `Protocol ${DEVTOOLS_PROTOCOL_VERSION} is required`);
+      return;
+    }
+
+    const session = sessions.get(target);
+    if (!session) {
+      fail('HANDSHAKE_REQUIRED', 'Send HANDSHAKE before other requests');
+      return;
+    }
+    if (!session.capabilities.includes(REQUIRED_CAPABILITY[message.type])) {
+      fail('UNSUPPORTED_CAPABILITY', `${message.type} requires the "${REQUIRED_CAPABILITY[message.type]}" capability`);
+      return;
+    }
+
+    switch (message.type) {
+      case 'GET_REPORTS':
+        reply({ type: 'REPORTS_RESPONSE', payload: redactReports(getEffectReports().filter(session.matches)) });
+        break;
+      case 'CLEAR_REPORTS':
+        clearEffectReports();
+        reply({ type: 'ACK' });
+        break;
+      case 'GENERATE_GRAPH':
+        generateEffectGraph();
+        reply({
+          type: 'GRAPH_RESPONSE',
+          payload: buildEffectGraph(
+            getEffectReports().filter(session.matches).map(report => redactReport(report, options))
+          )
+        });
+        break;
+      case 'SUBSCRIBE':
+        session.unsubscribe?.();
+        session.unsubscribe = registerReportSink(
+          {
+            write: reports => {
+              reply({ type: 'EFFECT_REPORTS', payload: redactReports(reports) });
+            }
+          },
+          { filter: report => session.matches(report), flushInterval: message.payload?.flushInterval }
+        );
+        reply({ type: 'ACK' });
+        break;
+      case 'UNSUBSCRIBE':
+        session.unsubscribe?.();
+        session.unsubscribe = undefined;
+        reply({ type: 'ACK' });
+        break;
+      case 'SET_FILTER':
+        session.matches = createReportFilter(message.payload.filter || undefined);
+        reply({ type: 'ACK' });
+        break;
+      case 'SET_ENABLED':
+        enableDevTools(message.payload.enabled);
+        reply({ type: 'ACK' });
+        break;
+    }
+  };
+
+  // Listen for DevTools messages
+  window.addEventListener('message', handleMessage);
+
+  getLogger().log('info', { type: 'notice', message: '🔍 React Smart Effect DevTools initialized' });
+
+  return () => {
+    window.removeEventListener('message', handleMessage);
+    sessions.forEach(session => session.unsubscribe?.());
+    sessions.clear();
+  };
+}
+
+/**
+ * Apply the panel's redaction rules to the dependency values of a report
+ */
+export function redactReport(report: EffectReport, options: DevToolsPanelOptions): EffectReport {
+  const { redactNames, redact } = options;
+  if (!redactNames?.length && !redact) return report;
+
+  const { names } = report.dependencies;
+  const isRedactedName = (index: number) => {
+    const name = names?.[index];
+    return name !== undefined && !!redactNames?.some(pattern =>
+      typeof pattern === 'string' ? pattern === name : pattern.test(name)
+    );
+  };
+  const redactValue = (value: unknown, index: number) => {
+    if (isRedactedName(index)) return REDACTED;
+    return redact ? redact(value, { effectId: report.id, index, name: names?.[index] }) : value;
+  };
+
+  const { diffs } = report.dependencies;
+
+  return {
+    ...report,
+    dependencies: {
+      ...report.dependencies,
+      previous: report.dependencies.previous.map(redactValue),
+      current: report.dependencies.current.map(redactValue),
+      ...(diffs && {
+        diffs: diffs.map((diff, index) =>
+          diff && !isRedactedName(index)
+            ? {
+                ...diff,
+                changes: diff.changes.map(change => ({
+                  ...change,
+                  prev: redactValue(change.prev, index),
+                  next: redactValue(change.next, index)
+                }))
+              }
+            : undefined
+        )
+      })
+    }
+  };
+}
+
+function isRequestMessage(message: any): message is DevToolsRequestMessage {
+  if (typeof message.type !== 'string' || typeof message.id !== 'string') return false;
+
+  switch (message.type) {
+    case 'HANDSHAKE':
+      return Array.isArray(message.payload?.protocols);
+    case 'SET_FILTER':
+      return message.payload?.filter === null || typeof message.payload?.filter === 'string';
+    case 'SET_ENABLED':
+      return typeof message.payload?.enabled === 'boolean';
+    case 'SUBSCRIBE':
+      return message.payload === undefined || typeof message.payload === 'object';
+    case 'GET_REPORTS':
+    case 'CLEAR_REPORTS':
+    case 'GENERATE_GRAPH':
+    case 'UNSUBSCRIBE':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Auto-initialize in development
+if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
+  initializeDevToolsPanel();
+}
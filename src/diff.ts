@@ -0,0 +1,184 @@
+import { DependencyList } from 'react';
+import { DependencyChange, DependencyDiff } from './types';
+
+export interface DiffOptions {
+  /** Maximum number of changes collected before the diff is truncated */
+  maxChanges?: number;
+  /** Maximum nesting depth walked before a subtree is reported as a whole */
+  maxDepth?: number;
+}
+
+const DEFAULT_MAX_CHANGES = 20;
+const DEFAULT_MAX_DEPTH = 8;
+const MAX_VALUE_LENGTH = 60;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Computes the exact paths that differ between two values.
+ * Handles arrays, Maps, Sets, Dates and cyclic structures.
+ */
+export function diffValues(
+  prev: any,
+  next: any,
+  rootPath: string = '',
+  options: DiffOptions = {}
+): DependencyDiff {
+  const maxChanges = options.maxChanges ?? DEFAULT_MAX_CHANGES;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const changes: DependencyChange[] = [];
+  const visited = new Map<object, Set<object>>();
+  let truncated = false;
+
+  const push = (change: DependencyChange) => {
+    if (changes.length >= maxChanges) {
+      truncated = true;
+      return;
+    }
+    changes.push(change);
+  };
+
+  const walk = (a: any, b: any, path: string, depth: number): void => {
+    if (Object.is(a, b) || truncated) return;
+
+    if (a instanceof Date && b instanceof Date) {
+      if (a.getTime() !== b.getTime()) push({ path, kind: 'changed', prev: a, next: b });
+      return;
+    }
+
+    if (!isContainer(a) || !isContainer(b) || containerKind(a) !== containerKind(b)) {
+      push({ path, kind: 'changed', prev: a, next: b });
+      return;
+    }
+
+    // Cycles: a pair already being compared adds nothing new
+    const seen = visited.get(a);
+    if (seen?.has(b)) return;
+    visited.set(a, (seen || new Set()).add(b));
+
+    if (depth >= maxDepth) {
+      push({ path, kind: 'changed', prev: a, next: b });
+      return;
+    }
+
+    if (Array.isArray(a)) {
+      const length = Math.max(a.length, b.length);
+      for (let index = 0; index < length; index++) {
+        const childPath = `${path}[${index}]`;
+        if (index >= a.length) push({ path: childPath, kind: 'added', next: b[index] });
+        else if (index >= b.length) push({ path: childPath, kind: 'removed', prev: a[index] });
+        else walk(a[index], b[index], childPath, depth + 1);
+      }
+      return;
+    }
+
+    if (a instanceof Map) {
+      const keys = new Set([...a.keys(), ...b.keys()]);
+      keys.forEach(key => {
+        const childPath = `${path}[${formatPathKey(key)}]`;
+        if (!a.has(key)) push({ path: childPath, kind: 'added', next: b.get(key) });
+        else if (!b.has(key)) push({ path: childPath, kind: 'removed', prev: a.get(key) });
+        else walk(a.get(key), b.get(key), childPath, depth + 1);
+      });
+      return;
+    }
+
+    if (a instanceof Set) {
+      a.forEach(value => {
+        if (!b.has(value)) push({ path: `${path}{${formatValue(value)}}`, kind: 'removed', prev: value });
+      });
+      b.forEach((value: any) => {
+        if (!a.has(value)) push({ path: `${path}{${formatValue(value)}}`, kind: 'added', next: value });
+      });
+      return;
+    }
+
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    keys.forEach(key => {
+      const childPath = IDENTIFIER.test(key)
+        ? `${path}${path ? '.' : ''}${key}`
+        : `${path}[${JSON.stringify(key)}]`;
+      const hasPrev = Object.prototype.hasOwnProperty.call(a, key);
+      const hasNext = Object.prototype.hasOwnProperty.call(b, key);
+
+      if (!hasPrev) push({ path: childPath, kind: 'added', next: b[key] });
+      else if (!hasNext) push({ path: childPath, kind: 'removed', prev: a[key] });
+      else walk(a[key], b[key], childPath, depth + 1);
+    });
+  };
+
+  walk(prev, next, rootPath, 0);
+
+  return { changes, truncated };
+}
+
+/**
+ * Diffs every changed object dependency, keyed by dependency name or `deps[index]`
+ */
+export function diffDependencies(
+  prevDeps: DependencyList,
+  nextDeps: DependencyList,
+  changed: boolean[],
+  names?: string[],
+  options?: DiffOptions
+): Array<DependencyDiff | undefined> {
+  return nextDeps.map((next, index) => {
+    const prev = prevDeps[index];
+    if (!changed[index] || !isContainer(prev) || !isContainer(next)) return undefined;
+    return diffValues(prev, next, names?.[index] ?? `deps[${index}]`, options);
+  });
+}
+
+/**
+ * Formats a single change, e.g. `filters.range.start: 3 → 5` or `items[4] added: 7`
+ */
+export function formatDependencyChange(change: DependencyChange): string {
+  const path = change.path || '(root)';
+
+  switch (change.kind) {
+    case 'added':
+      return `${path} added: ${formatValue(change.next)}`;
+    case 'removed':
+      return `${path} removed: ${formatValue(change.prev)}`;
+    default:
+      return `${path}: ${formatValue(change.prev)} → ${formatValue(change.next)}`;
+  }
+}
+
+/**
+ * Formats a whole diff as one line per change
+ */
+export function formatDependencyDiff(diff: DependencyDiff): string[] {
+  const lines = diff.changes.map(formatDependencyChange);
+  if (diff.truncated) lines.push('… more changes omitted');
+  return lines;
+}
+
+function isContainer(value: any): boolean {
+  return typeof value === 'object' && value !== null && !(value instanceof Date);
+}
+
+function containerKind(value: object): string {
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Map) return 'map';
+  if (value instanceof Set) return 'set';
+  return 'object';
+}
+
+function formatPathKey(key: any): string {
+  return typeof key === 'string' ? JSON.stringify(key) : formatValue(key);
+}
+
+function formatValue(value: any): string {
+  let formatted: string;
+
+  if (typeof value === 'string') formatted = JSON.stringify(value);
+  else if (value instanceof Date) formatted = value.toISOString();
+  else if (value instanceof Map) formatted = `Map(${value.size})`;
+  else if (value instanceof Set) formatted = `Set(${value.size})`;
+  else if (Array.isArray(value)) formatted = `Array(${value.length})`;
+  else if (typeof value === 'function') formatted = `[Function ${value.name || 'anonymous'}]`;
+  else if (typeof value === 'object' && value !== null) formatted = `Object(${Object.keys(value).length} keys)`;
+  else formatted = String(value);
+
+  return formatted.length > MAX_VALUE_LENGTH ? `${formatted.slice(0, MAX_VALUE_LENGTH)}…` : formatted;
+}
@@ -0,0 +1,133 @@
+import { EffectGraph, EffectGraphComponent, EffectGraphEffect, EffectReport } from './types';
+import { getEffectHistory, getEffectReports } from './devtools';
+import { formatDependencyValue } from './utils';
+
+const UNKNOWN_COMPONENT = 'Unknown component';
+
+/**
+ * Build a component → effect → dependency graph from the stored reports
+ */
+export function buildEffectGraph(reports: EffectReport[] = getEffectReports()): EffectGraph {
+  const components = new Map<string, EffectGraphComponent>();
+
+  reports.forEach(report => {
+    const name = report.component || UNKNOWN_COMPONENT;
+    if (!components.has(name)) {
+      components.set(name, { name, effects: [] });
+    }
+    components.get(name)!.effects.push(buildEffectNode(report));
+  });
+
+  return { components: Array.from(components.values()) };
+}
+
+/**
+ * Serialize the effect graph as a Mermaid flowchart
+ */
+export function generateEffectGraphMermaid(graph: EffectGraph = buildEffectGraph()): string {
+  const lines = ['graph LR'];
+
+  graph.components.forEach((component, componentIndex) => {
+    lines.push(`  subgraph c${componentIndex}["${escapeMermaid(component.name)}"]`);
+    component.effects.forEach((effect, effectIndex) => {
+      lines.push(`    c${componentIndex}e${effectIndex}["${escapeMermaid(effect.id)}<br/>${formatTriggers(effect)}"]`);
+    });
+    lines.push('  end');
+  });
+
+  graph.components.forEach((component, componentIndex) => {
+    component.effects.forEach((effect, effectIndex) => {
+      const effectNode = `c${componentIndex}e${effectIndex}`;
+      effect.dependencies.forEach((dependency, dependencyIndex) => {
+        const dependencyNode = `${effectNode}d${dependencyIndex}`;
+        lines.push(`  ${dependencyNode}(["${escapeMermaid(dependency.name)}"])`);
+        lines.push(
+          dependency.changed
+            ? `  ${dependencyNode} ==>|changed| ${effectNode}`
+            : `  ${dependencyNode} --> ${effectNode}`
+        );
+      });
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Serialize the effect graph in Graphviz DOT format
+ */
+export function generateEffectGraphDot(graph: EffectGraph = buildEffectGraph()): string {
+  const lines = ['digraph EffectGraph {', '  rankdir=LR;'];
+
+  graph.components.forEach((component, componentIndex) => {
+    lines.push(`  subgraph cluster_${componentIndex} {`);
+    lines.push(`    label=${quoteDot(component.name)};`);
+    component.effects.forEach(effect => {
+      lines.push(
+        `    ${quoteDot(`effect:${effect.id}`)} [label=${quoteDot(`${effect.id}\n${formatTriggers(effect)}`)}, shape=box];`
+      );
+    });
+    lines.push('  }');
+  });
+
+  graph.components.forEach(component => {
+    component.effects.forEach(effect => {
+      effect.dependencies.forEach(dependency => {
+        const dependencyNode = quoteDot(`dep:${effect.id}:${dependency.name}`);
+        lines.push(`  ${dependencyNode} [label=${quoteDot(dependency.name)}, shape=ellipse];`);
+        lines.push(
+          `  ${dependencyNode} -> ${quoteDot(`effect:${effect.id}`)}${
+            dependency.changed ? ' [color=red, label="changed"]' : ''
+          };`
+        );
+      });
+    });
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize the effect graph as JSON
+ */
+export function generateEffectGraphJSON(graph: EffectGraph = buildEffectGraph()): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+function buildEffectNode(report: EffectReport): EffectGraphEffect {
+  const history = getEffectHistory(report.id);
+  const lastTriggered = [...history, report].reverse().find(entry => entry.triggered);
+
+  return {
+    id: report.id,
+    triggerCount: report.triggerCount ?? history.filter(entry => entry.triggered).length,
+    renderCount: report.renderCount,
+    lastChanged: lastTriggered
+      ? lastTriggered.dependencies.changed
+          .map((isChanged, index) => (isChanged ? dependencyLabel(lastTriggered, index) : null))
+          .filter((name): name is string => name !== null)
+      : [],
+    dependencies: report.dependencies.current.map((value, index) => ({
+      name: dependencyLabel(report, index),
+      value: formatDependencyValue(value),
+      changed: Boolean(report.dependencies.changed[index])
+    }))
+  };
+}
+
+function dependencyLabel(report: EffectReport, index: number): string {
+  return report.dependencies.names?.[index] ?? `deps[${index}]`;
+}
+
+function formatTriggers(effect: EffectGraphEffect): string {
+  return `${effect.triggerCount} trigger${effect.triggerCount === 1 ? '' : 's'} / ${effect.renderCount} renders`;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
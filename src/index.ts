@@ -5,10 +5,28 @@ export {
   useDeepEffect,
   useDebugEffect
 } from './useSmartEffect';
+export { useSmartAsyncEffect } from './useSmartAsyncEffect';
+
+// Subtree-scoped defaults and report stores
+export { SmartEffectProvider } from './provider';
+
+// Runaway effect detection
+export { configureLoopDetection } from './loopDetection';
+
+// Logging
+export {
+  configureLogger,
+  createConsoleLogger,
+  createJsonLinesLogger,
+  silentLogger
+} from './logger';
 
 // Utility functions
 export {
   deepCompareDeps,
+  compareDependency,
+  getChangedDeps,
+  normalizeDeps,
   analyzeDeps,
   generateDependencyWarning,
   logDependencyChanges,
@@ -16,27 +34,98 @@ export {
   formatDependencyValue
 } from './utils';
 
+// Structural diffs
+export {
+  diffValues,
+  diffDependencies,
+  formatDependencyChange,
+  formatDependencyDiff
+} from './diff';
+
 // DevTools integration
 export {
   enableDevTools,
+  isDevToolsEnabled,
   reportToDevTools,
   getEffectReports,
   getEffectReport,
+  getEffectHistory,
+  getEffectLog,
+  getReportsInRange,
+  configureReportHistory,
+  updateEffectReport,
+  getSlowestEffects,
   clearEffectReports,
   generateEffectGraph,
-  initializeDevToolsPanel
+  createEffectReportStore,
+  getGlobalReportStore
 } from './devtools';
+export { initializeDevToolsPanel, redactReport, DEVTOOLS_PROTOCOL_VERSION } from './devtoolsPanel';
+export { exportSession, importSession, SESSION_FORMAT_VERSION } from './session';
+export {
+  registerReportSink,
+  subscribeToEffectReports,
+  flushReportSinks,
+  createMemorySink,
+  createBroadcastChannelSink,
+  createHttpSink
+} from './sinks';
+export {
+  buildEffectGraph,
+  generateEffectGraphMermaid,
+  generateEffectGraphDot,
+  generateEffectGraphJSON
+} from './graph';
 
-// Babel and Vite plugins
+// Babel and Vite plugins; Rollup, webpack and esbuild live under their own entries (react-smart-effect/rollup, ...)
 export { default as babelPluginSmartEffect, createBabelConfig } from './plugins/babel';
 export { vitePluginSmartEffect, createViteConfig } from './plugins/vite';
+export type { SmartEffectPluginOptions } from './plugins/core';
 
 // Types
 export type {
   UseSmartEffectOptions,
   DependencyAnalysis,
+  DependencyComparator,
+  DependencyComparators,
+  NamedDependencies,
+  SmartDependencies,
+  LoopAction,
+  LoopDetectionOptions,
+  EffectSkipReason,
+  LogLevel,
+  EffectLogEvent,
+  EffectLogger,
+  LoggedDependencyChange,
   EffectReport,
-  DevToolsState
+  EffectTiming,
+  EffectLeakCounts,
+  LeakedResource,
+  LeakedResourceKind,
+  DependencyChange,
+  DependencyDiff,
+  DevToolsState,
+  EffectReportStore,
+  EffectReportStoreOptions,
+  SmartEffectProviderProps,
+  EffectSession,
+  EffectReportSink,
+  DevToolsCapability,
+  DevToolsErrorCode,
+  DevToolsRequest,
+  DevToolsRequestMessage,
+  DevToolsResponse,
+  DevToolsResponseMessage,
+  DevToolsPanelOptions,
+  RedactionContext,
+  ReportSinkOptions,
+  EffectGraph,
+  EffectGraphComponent,
+  EffectGraphEffect,
+  EffectGraphDependency,
+  AsyncEffectCallback,
+  AsyncEffectStatus,
+  UseSmartAsyncEffectOptions
 } from './types';
 
 // Version
@@ -0,0 +1,311 @@
+import { DependencyList } from 'react';
+import { EffectLeakCounts, LeakedResource, LeakedResourceKind } from './types';
+
+// Number of stack frames kept per registration
+const MAX_STACK_FRAMES = 5;
+
+const OBSERVER_TYPES = ['MutationObserver', 'ResizeObserver', 'IntersectionObserver', 'PerformanceObserver'];
+
+interface Registration extends LeakedResource {
+  owner: LeakTracker;
+  /** Released along with its signal, for listeners added with `{ signal }` */
+  signal?: AbortSignal;
+  match: (kind: LeakedResourceKind, ...keys: unknown[]) => boolean;
+  onRelease?: () => void;
+}
+
+export interface LeakTracker {
+  /**
+   * Run code with listener, timer, observer and subscription APIs instrumented.
+   * Registrations are attributed to this tracker; releases are seen for any tracker.
+   */
+  track<T>(fn: () => T): T;
+  /** Resources registered through this tracker that are still held; forgets them all */
+  collect(): LeakedResource[];
+}
+
+// Unreleased registrations of every tracker
+const registrations = new Set<Registration>();
+// Trackers currently running code, innermost last
+const activeTrackers: LeakTracker[] = [];
+let restoreGlobals: (() => void) | null = null;
+
+/**
+ * Creates a tracker for one effect run. `subscribe()` calls are tracked on
+ * dependencies that have a subscribe method.
+ */
+export function createLeakTracker(deps?: DependencyList, names?: string[]): LeakTracker {
+  const tracker: LeakTracker = {
+    track(fn) {
+      activeTrackers.push(tracker);
+      if (activeTrackers.length === 1) restoreGlobals = instrumentGlobals();
+      const restoreSubscribables = instrumentSubscribables(deps || [], names);
+
+      try {
+        return fn();
+      } finally {
+        restoreSubscribables();
+        activeTrackers.pop();
+        if (activeTrackers.length === 0 && restoreGlobals) {
+          restoreGlobals();
+          restoreGlobals = null;
+        }
+      }
+    },
+
+    collect() {
+      const leaks: LeakedResource[] = [];
+      registrations.forEach(registration => {
+        if (registration.owner !== tracker) return;
+        registrations.delete(registration);
+        if (registration.signal?.aborted) return;
+
+        const { kind, description, stack } = registration;
+        leaks.push(stack ? { kind, description, stack } : { kind, description });
+      });
+      return leaks;
+    }
+  };
+
+  return tracker;
+}
+
+/**
+ * Adds leaked resources to running totals per kind
+ */
+export function countLeaks(leaks: LeakedResource[], counts?: EffectLeakCounts): EffectLeakCounts {
+  const totals = counts ? { ...counts } : { listeners: 0, timers: 0, observers: 0, subscriptions: 0 };
+  leaks.forEach(({ kind }) => {
+    totals[`${kind}s` as keyof EffectLeakCounts] += 1;
+  });
+  return totals;
+}
+
+/**
+ * Warning listing leaked resources with the stacks of their registration
+ */
+export function formatLeakWarning(effectId: string, leaks: LeakedResource[]): string {
+  const lines = leaks.map(({ description, stack }) =>
+    stack ? `  ${description}\n${stack.split('\n').map(frame => `    ${frame.trim()}`).join('\n')}` : `  ${description}`
+  );
+  const count = leaks.length === 1 ? '1 resource was' : `${leaks.length} resources were`;
+
+  return (
+    `[useSmartEffect:${effectId}] ${count} registered by the effect and not released by its cleanup:\n` +
+    lines.join('\n')
+  );
+}
+
+function register(
+  kind: LeakedResourceKind,
+  description: string,
+  match: Registration['match'],
+  extra: Partial<Registration> = {}
+): Registration | undefined {
+  const owner = activeTrackers[activeTrackers.length - 1];
+  if (!owner) return undefined;
+
+  const stack = captureStack();
+  const registration: Registration = { owner, kind, description, match, ...(stack && { stack }), ...extra };
+  registrations.add(registration);
+  return registration;
+}
+
+function release(registration: Registration | undefined): void {
+  if (!registration || !registrations.delete(registration)) return;
+  registration.onRelease?.();
+}
+
+function releaseMatching(kind: LeakedResourceKind, ...keys: unknown[]): void {
+  registrations.forEach(registration => {
+    if (registration.match(kind, ...keys)) release(registration);
+  });
+}
+
+// Frames of the code that made the registration, without our own wrappers
+function captureStack(): string | undefined {
+  const { stack } = new Error();
+  if (!stack) return undefined;
+  return stack.split('\n').slice(4, 4 + MAX_STACK_FRAMES).join('\n') || undefined;
+}
+
+function describeTarget(target: unknown): string {
+  const name = Object.prototype.toString.call(target).slice(8, -1);
+  return name === 'Object' ? (target as any)?.constructor?.name || name : name;
+}
+
+// Replaces a method and returns a function putting the original back
+function patch(owner: any, key: string, replace: (original: any) => any): () => void {
+  const hadOwn = Object.prototype.hasOwnProperty.call(owner, key);
+  const original = owner[key];
+  owner[key] = replace(original);
+
+  return () => {
+    if (hadOwn) {
+      owner[key] = original;
+    } else {
+      delete owner[key];
+    }
+  };
+}
+
+function instrumentGlobals(): () => void {
+  const scope = globalThis as any;
+  const restores: Array<() => void> = [];
+
+  if (typeof scope.EventTarget === 'function') {
+    const proto = scope.EventTarget.prototype;
+    restores.push(...instrumentListeners(proto));
+    // Some environments (e.g. jsdom) give the global its own listener methods
+    if (typeof scope.addEventListener === 'function' && scope.addEventListener !== proto.addEventListener) {
+      restores.push(...instrumentListeners(scope));
+    }
+  }
+
+  restores.push(...instrumentTimers(scope));
+
+  OBSERVER_TYPES.forEach(type => {
+    if (typeof scope[type] === 'function') restores.push(...instrumentObserver(scope[type].prototype, type));
+  });
+
+  return () => restores.reverse().forEach(restore => restore());
+}
+
+function instrumentListeners(owner: EventTarget): Array<() => void> {
+  const isCapture = (options: unknown) =>
+    typeof options === 'boolean' ? options : !!(options && (options as AddEventListenerOptions).capture);
+
+  return [
+    patch(owner, 'addEventListener', original => function (
+      this: EventTarget,
+      type: string,
+      listener: unknown,
+      options?: boolean | AddEventListenerOptions
+    ) {
+      original.call(this, type, listener, options);
+      if (!listener) return;
+
+      const target = this;
+      const capture = isCapture(options);
+      const settings = options && typeof options === 'object' ? options : undefined;
+      const signal = settings?.signal;
+      const registration = register(
+        'listener',
+        `"${type}" listener on ${describeTarget(target)}`,
+        (kind, ...keys) =>
+          kind === 'listener' && keys[0] === target && keys[1] === type && keys[2] === listener && keys[3] === capture,
+        signal ? { signal } : {}
+      );
+
+      // A once listener is released by the first event it receives
+      if (registration && settings?.once) {
+        const onEvent = () => release(registration);
+        original.call(target, type, onEvent, { capture, once: true });
+        registration.onRelease = () => target.removeEventListener(type, onEvent, capture);
+      }
+    }),
+    patch(owner, 'removeEventListener', original => function (
+      this: EventTarget,
+      type: string,
+      listener: unknown,
+      options?: boolean | EventListenerOptions
+    ) {
+      original.call(this, type, listener, options);
+      releaseMatching('listener', this, type, listener, isCapture(options));
+    })
+  ];
+}
+
+function instrumentTimers(scope: any): Array<() => void> {
+  const matchHandle = (handle: unknown): Registration['match'] => (kind, key) => kind === 'timer' && key === handle;
+
+  return [
+    patch(scope, 'setTimeout', original => (handler: unknown, delay?: number, ...args: unknown[]) => {
+      let registration: Registration | undefined;
+      const callback = typeof handler === 'function'
+        ? (...callbackArgs: unknown[]) => {
+            release(registration);
+            return handler(...callbackArgs);
+          }
+        : handler;
+      const handle = original.call(scope, callback, delay, ...args);
+      registration = register('timer', `setTimeout (${delay || 0}ms)`, matchHandle(handle));
+      return handle;
+    }),
+    patch(scope, 'setInterval', original => (handler: unknown, delay?: number, ...args: unknown[]) => {
+      const handle = original.call(scope, handler, delay, ...args);
+      register('timer', `setInterval (${delay || 0}ms)`, matchHandle(handle));
+      return handle;
+    }),
+    patch(scope, 'clearTimeout', original => (handle: unknown) => {
+      original.call(scope, handle);
+      releaseMatching('timer', handle);
+    }),
+    patch(scope, 'clearInterval', original => (handle: unknown) => {
+      original.call(scope, handle);
+      releaseMatching('timer', handle);
+    })
+  ];
+}
+
+function instrumentObserver(proto: any, type: string): Array<() => void> {
+  return [
+    patch(proto, 'observe', original => function (this: unknown, target: unknown, ...args: unknown[]) {
+      const result = original.call(this, target, ...args);
+      const observer = this;
+      releaseMatching('observer', observer, target);
+      register(
+        'observer',
+        `${type} observing ${target === undefined ? 'entries' : describeTarget(target)}`,
+        (kind, ...keys) => kind === 'observer' && keys[0] === observer && (keys.length === 1 || keys[1] === target)
+      );
+      return result;
+    }),
+    patch(proto, 'unobserve', original => function (this: unknown, target: unknown) {
+      original.call(this, target);
+      releaseMatching('observer', this, target);
+    }),
+    patch(proto, 'disconnect', original => function (this: unknown) {
+      original.call(this);
+      releaseMatching('observer', this);
+    })
+  ];
+}
+
+// subscribe() returning an unsubscribe function or an object with unsubscribe()
+function instrumentSubscribables(deps: DependencyList, names?: string[]): () => void {
+  const restores: Array<() => void> = [];
+
+  deps.forEach((dep: any, index) => {
+    if (!dep || typeof dep !== 'object' || typeof dep.subscribe !== 'function') return;
+    const label = names ? `"${names[index]}"` : `at index ${index}`;
+
+    try {
+      restores.push(patch(dep, 'subscribe', original => function (this: unknown, ...args: unknown[]) {
+        const result = original.apply(this, args);
+        const description = `subscription to dependency ${label}`;
+
+        if (typeof result === 'function') {
+          const registration = register('subscription', description, () => false);
+          return function (this: unknown, ...unsubscribeArgs: unknown[]) {
+            release(registration);
+            return result.apply(this, unsubscribeArgs);
+          };
+        }
+        if (result && typeof result.unsubscribe === 'function') {
+          const registration = register('subscription', description, () => false);
+          const unsubscribe = result.unsubscribe;
+          result.unsubscribe = function (this: unknown, ...unsubscribeArgs: unknown[]) {
+            release(registration);
+            return unsubscribe.apply(this, unsubscribeArgs);
+          };
+        }
+        return result;
+      }));
+    } catch {
+      // Frozen or otherwise non-writable: not tracked
+    }
+  });
+
+  return () => restores.reverse().forEach(restore => restore());
+}
@@ -0,0 +1,180 @@
+import { EffectLogEvent, EffectLogger, EffectReport, LogLevel } from './types';
+import { formatDependencyDiff } from './diff';
+import { toSerializable } from './utils';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger writing human-readable output to the console, at or above `level`
+ */
+export function createConsoleLogger(options: { level?: LogLevel } = {}): EffectLogger {
+  const minimum = LEVELS.indexOf(options.level || 'debug');
+
+  return {
+    log(level, event) {
+      if (LEVELS.indexOf(level) < minimum) return;
+      printEvent(level, event);
+    }
+  };
+}
+
+/**
+ * Logger emitting one JSON object per event, e.g. for a log pipeline.
+ * Values that JSON cannot represent are replaced with labels.
+ */
+export function createJsonLinesLogger(
+  options: { write?: (line: string) => void; level?: LogLevel } = {}
+): EffectLogger {
+  const { write = (line: string) => console.log(line) } = options;
+  const minimum = LEVELS.indexOf(options.level || 'debug');
+
+  return {
+    log(level, event) {
+      if (LEVELS.indexOf(level) < minimum) return;
+      write(JSON.stringify(toSerializable({ timestamp: Date.now(), level, ...event })));
+    }
+  };
+}
+
+/**
+ * Logger that discards every event
+ */
+export const silentLogger: EffectLogger = {
+  log() {}
+};
+
+let globalLogger: EffectLogger = createConsoleLogger();
+
+/**
+ * Set the logger used by effects without a logger option (null restores the console logger)
+ */
+export function configureLogger(logger: EffectLogger | null): void {
+  globalLogger = logger || createConsoleLogger();
+}
+
+/**
+ * The logger for an effect: its own, or the global one
+ */
+export function getLogger(logger?: EffectLogger): EffectLogger {
+  return logger || globalLogger;
+}
+
+function printEvent(level: LogLevel, event: EffectLogEvent): void {
+  const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+  switch (event.type) {
+    case 'effect-will-run': {
+      const { effectId, dependencies, isFirstRender, schedule } = event;
+      if (schedule) {
+        write(`[useSmartEffect:${effectId}] Effect deferred`, {
+          mode: schedule.mode,
+          wait: schedule.wait,
+          dependencies,
+          isFirstRender
+        });
+      } else {
+        write(`[useSmartEffect:${effectId}] Effect will execute`, { dependencies, isFirstRender });
+      }
+      break;
+    }
+    case 'effect-skipped':
+      write(`[useSmartEffect:${event.effectId}] Effect skipped`, { reason: event.message });
+      break;
+    case 'effect-scheduled':
+      write(`[useSmartEffect:${event.effectId}] Deferred effect ${event.status}`, {
+        mode: event.mode,
+        wait: event.wait
+      });
+      break;
+    case 'deps-changed': {
+      const prefix = event.effectId ? `[useSmartEffect:${event.effectId}]` : '[useSmartEffect]';
+      console.group(`${prefix} Dependencies Changed`);
+      event.changes.forEach(({ name, prev, next, diff }) => {
+        if (!diff) {
+          write(`${name}:`, { prev, next });
+        } else if (diff.length > 0) {
+          write(`${name}:\n${diff.map(line => `  ${line}`).join('\n')}`);
+        } else {
+          write(`${name}: new reference with identical contents`);
+        }
+      });
+      console.groupEnd();
+      break;
+    }
+    case 'effect-graph':
+      printEffectGraph(event.reports, event.history);
+      break;
+    case 'effect-rejected':
+    case 'sink-failed':
+      write(event.message, event.error);
+      break;
+    default:
+      write(event.message);
+  }
+}
+
+function printEffectGraph(reports: EffectReport[], history?: Record<string, EffectReport[]>): void {
+  console.group('🔍 React Smart Effect - Effect Graph');
+
+  reports.forEach(report => {
+    const status = report.triggered ? '✅ Triggered' : '⏭️ Skipped';
+    const changedCount = report.dependencies.changed.filter(Boolean).length;
+
+    const label = report.component ? `${report.component} › ${report.id}` : report.id;
+    console.group(`${status} ${label} (Render #${report.renderCount})`);
+    console.log('Timestamp:', new Date(report.timestamp).toLocaleTimeString());
+    console.log('Dependencies changed:', changedCount);
+    if (report.triggerCount !== undefined) {
+      console.log('Triggers:', `${report.triggerCount} of ${report.renderCount} renders`);
+    }
+    if (report.timing) {
+      console.log('Timing:', formatTiming(report.timing));
+    }
+    const diffLines = (report.dependencies.diffs || []).reduce<string[]>(
+      (lines, diff) => (diff ? lines.concat(formatDependencyDiff(diff)) : lines),
+      []
+    );
+    if (diffLines.length > 0) {
+      console.log(`Why it fired:\n${diffLines.map(line => `  ${line}`).join('\n')}`);
+    }
+
+    if (report.dependencies.current.length > 0) {
+      console.table(
+        report.dependencies.current.map((dep, index) => ({
+          ...(report.dependencies.names ? { Name: report.dependencies.names[index] } : { Index: index }),
+          Current: typeof dep === 'object' ? JSON.stringify(dep) : String(dep),
+          Previous: typeof report.dependencies.previous[index] === 'object'
+            ? JSON.stringify(report.dependencies.previous[index])
+            : String(report.dependencies.previous[index]),
+          Changed: report.dependencies.changed[index] ? '✅' : '❌'
+        }))
+      );
+    }
+
+    if (history) {
+      console.table(
+        (history[report.id] || []).map(entry => ({
+          Time: new Date(entry.timestamp).toLocaleTimeString(),
+          Status: entry.triggered ? 'triggered' : entry.skipReason || 'skipped',
+          Changed: entry.dependencies.changed
+            .map((changed, index) => (changed ? entry.dependencies.names?.[index] ?? index : null))
+            .filter(label => label !== null)
+            .join(', '),
+          'Effect (ms)': entry.timing?.effectDuration?.toFixed(2) ?? ''
+        }))
+      );
+    }
+
+    console.groupEnd();
+  });
+
+  console.groupEnd();
+}
+
+function formatTiming(timing: NonNullable<EffectReport['timing']>): string {
+  const parts: string[] = [];
+  if (timing.effectDuration !== undefined) parts.push(`effect ${timing.effectDuration.toFixed(2)}ms`);
+  if (timing.cleanupDuration !== undefined) parts.push(`cleanup ${timing.cleanupDuration.toFixed(2)}ms`);
+  if (timing.commitDelay !== undefined) parts.push(`render→commit ${timing.commitDelay.toFixed(2)}ms`);
+  return parts.join(', ');
+}
@@ -0,0 +1,130 @@
+import { EffectLogger, EffectReport, LoopDetectionOptions } from './types';
+import { getLogger } from './logger';
+
+type ResolvedLoopDetection = Required<LoopDetectionOptions>;
+
+// Global defaults, overridable per effect through the loopDetection option.
+// Effects without their own options are only watched in development.
+let globalLoopDetection: ResolvedLoopDetection & { enabled: boolean } = {
+  enabled: process.env.NODE_ENV === 'development',
+  maxTriggers: 50,
+  windowMs: 1000,
+  action: 'warn'
+};
+
+// Number of iterations listed in a loop diagnostic
+const MAX_DIAGNOSTIC_ITERATIONS = 10;
+
+// What the detector keeps of each trigger, rather than the whole report and its deps
+interface LoopTrigger {
+  timestamp: number;
+  changed: boolean[];
+  names?: string[];
+}
+
+export interface LoopDetector {
+  /** Records a render and returns true when the circuit breaker suppresses the run */
+  record(report: EffectReport, config: ResolvedLoopDetection, logger?: EffectLogger): boolean;
+}
+
+/**
+ * Configure runaway effect detection for every effect
+ */
+export function configureLoopDetection(
+  options: LoopDetectionOptions & { enabled?: boolean }
+): void {
+  globalLoopDetection = { ...globalLoopDetection, ...options };
+}
+
+/**
+ * Merges per-effect loop detection options with the global defaults.
+ * An effect's own options turn detection on for it even where it is off globally.
+ */
+export function resolveLoopDetection(
+  options?: LoopDetectionOptions | false
+): ResolvedLoopDetection | null {
+  if (options === false || (!options && !globalLoopDetection.enabled)) return null;
+
+  const { enabled, ...defaults } = globalLoopDetection;
+  return { ...defaults, ...options };
+}
+
+/**
+ * Creates a detector that counts triggers of one effect within a sliding window
+ */
+export function createLoopDetector(): LoopDetector {
+  let triggers: LoopTrigger[] = [];
+  let breakerOpen = false;
+
+  return {
+    record(report, config, logger) {
+      const now = report.timestamp;
+
+      if (!report.triggered) {
+        // Dependencies stabilized
+        breakerOpen = false;
+        return false;
+      }
+
+      const lastTrigger = triggers[triggers.length - 1];
+      if (breakerOpen && lastTrigger && now - lastTrigger.timestamp > config.windowMs) {
+        breakerOpen = false;
+      }
+
+      triggers = triggers.filter(trigger => now - trigger.timestamp <= config.windowMs);
+      triggers.push({ timestamp: now, changed: report.dependencies.changed, names: report.dependencies.names });
+
+      if (breakerOpen) return true;
+      if (triggers.length <= config.maxTriggers) return false;
+
+      const diagnostic = buildLoopDiagnostic(report.id, triggers, config);
+
+      switch (config.action) {
+        case 'throw':
+          throw new Error(diagnostic);
+        case 'break':
+          getLogger(logger).log('warn', {
+            type: 'loop-detected',
+            effectId: report.id,
+            message: `${diagnostic}\nCircuit breaker tripped: the effect will not run until its dependencies stabilize.`,
+            action: config.action
+          });
+          breakerOpen = true;
+          return true;
+        default:
+          getLogger(logger).log('warn', {
+            type: 'loop-detected',
+            effectId: report.id,
+            message: diagnostic,
+            action: config.action
+          });
+          // Start counting afresh so the warning is not repeated on every render
+          triggers = [];
+          return false;
+      }
+    }
+  };
+}
+
+function buildLoopDiagnostic(
+  effectId: string,
+  triggers: LoopTrigger[],
+  config: ResolvedLoopDetection
+): string {
+  const recent = triggers.slice(-MAX_DIAGNOSTIC_ITERATIONS);
+  const offset = triggers.length - recent.length;
+
+  const iterations = recent.map((trigger, index) => {
+    const { changed, names } = trigger;
+    const flipped = changed
+      .map((isChanged, depIndex) => (isChanged ? names?.[depIndex] ?? `index ${depIndex}` : null))
+      .filter(Boolean);
+
+    return `  #${offset + index + 1}: ${flipped.length > 0 ? flipped.join(', ') : '(no dependencies)'}`;
+  });
+
+  return (
+    `[useSmartEffect:${effectId}] Possible infinite loop: triggered ${triggers.length} times within ${config.windowMs}ms.\n` +
+    `Dependencies changed per iteration (most recent last):\n${iterations.join('\n')}`
+  );
+}
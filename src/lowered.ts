@@ -0,0 +1,49 @@
+import { useEffect, useLayoutEffect, useRef, DependencyList, EffectCallback } from 'react';
+import { deepCompareDeps } from './utils';
+
+export interface LoweredEffectOptions {
+  skipFirstRender?: boolean;
+  deepCompare?: boolean;
+  compareFunction?: (prev: DependencyList, next: DependencyList) => boolean;
+  /** Use useLayoutEffect instead of useEffect */
+  layout?: boolean;
+}
+
+/**
+ * Minimal runtime for smart effects lowered by the Babel plugin's production mode.
+ * Keeps skipFirstRender, deepCompare and compareFunction semantics without reports.
+ */
+export function useLoweredEffect(
+  effect: EffectCallback,
+  deps: DependencyList | undefined,
+  options: LoweredEffectOptions
+): void {
+  const { skipFirstRender = false, deepCompare = false, compareFunction, layout = false } = options;
+  const isFirstRender = useRef(true);
+  const prevDepsRef = useRef<DependencyList | undefined>(undefined);
+  const runTokenRef = useRef(0);
+
+  const effectHook = layout ? useLayoutEffect : useEffect;
+
+  const shouldRun = (() => {
+    if (isFirstRender.current) return !skipFirstRender;
+    if (!deps) return true;
+
+    const prevDeps = prevDepsRef.current;
+    if (compareFunction) return !compareFunction(prevDeps || [], deps);
+    if (!prevDeps || prevDeps.length !== deps.length) return true;
+    if (deepCompare) return !deepCompareDeps(prevDeps, deps);
+
+    return deps.some((dep, index) => !Object.is(dep, prevDeps[index]));
+  })();
+
+  prevDepsRef.current = deps ? [...deps] : undefined;
+  if (shouldRun && !isFirstRender.current) runTokenRef.current += 1;
+
+  effectHook(() => {
+    if (isFirstRender.current) isFirstRender.current = false;
+
+    if (!shouldRun) return;
+    return effect();
+  }, deps ? [runTokenRef.current] : undefined);
+}
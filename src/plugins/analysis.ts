@@ -0,0 +1,218 @@
+import { NodePath, types as t } from '@babel/core';
+
+type Binding = NonNullable<ReturnType<NodePath['scope']['getBinding']>>;
+
+export interface DependencyUsage {
+  /** Dependency path such as `user.id` */
+  path: string;
+  /** First reference inside the effect, used for code frames */
+  node: t.Node;
+  /** The effect reads the path through optional chaining (`user?.id`) */
+  optional?: boolean;
+}
+
+export interface ExhaustiveDepsResult {
+  /** Values referenced by the effect but absent from the dependency list */
+  missing: DependencyUsage[];
+  /** Declared dependencies the effect does not use, or that cannot change */
+  unnecessary: Array<{ path: string; node: t.Node; reason: string }>;
+}
+
+// Hooks whose listed results never change between renders
+const STABLE_HOOK_RESULTS: Record<string, number | 'self'> = {
+  useState: 1,
+  useReducer: 1,
+  useTransition: 1,
+  useRef: 'self'
+};
+
+/**
+ * Compares the component-scope values an inline effect callback reads
+ * with its declared dependencies, exhaustive-deps style
+ */
+export function analyzeExhaustiveDeps(
+  callPath: NodePath<t.CallExpression>,
+  effectIndex: number = 0,
+  depsIndex: number = 1
+): ExhaustiveDepsResult | null {
+  const componentPath = callPath.getFunctionParent();
+  const effectPath = callPath.get('arguments')[effectIndex];
+  const depsPath = callPath.get('arguments')[depsIndex];
+
+  if (!componentPath || !effectPath || !depsPath) return null;
+  if (!effectPath.isArrowFunctionExpression() && !effectPath.isFunctionExpression()) return null;
+
+  const declared = getDeclaredDependencies(depsPath);
+  if (!declared) return null;
+
+  const used = collectUsedDependencies(effectPath, componentPath);
+
+  const missing = used.filter(
+    usage => !declared.some(dep => usage.path === dep.path || usage.path.startsWith(`${dep.path}.`))
+  );
+
+  const unnecessary: ExhaustiveDepsResult['unnecessary'] = [];
+  declared.forEach(dep => {
+    const root = dep.path.split('.')[0];
+    const binding = callPath.scope.getBinding(root);
+    if (!binding) return; // Reported separately as undefined
+
+    if (!isDeclaredInside(binding, componentPath)) {
+      unnecessary.push({ ...dep, reason: 'outer scope values never change between renders' });
+      return;
+    }
+    if (isStableBinding(binding)) return;
+
+    const isUsed = used.some(usage => usage.path === dep.path || usage.path.startsWith(`${dep.path}.`));
+    if (!isUsed) {
+      unnecessary.push({ ...dep, reason: 'not referenced by the effect' });
+    }
+  });
+
+  return { missing, unnecessary };
+}
+
+/**
+ * Reads dependency paths from an array literal or a named-dependency object literal
+ */
+export function getDeclaredDependencies(
+  depsPath: NodePath
+): Array<{ path: string; node: t.Node }> | null {
+  const { node } = depsPath;
+  const expressions: t.Node[] = [];
+
+  if (t.isArrayExpression(node)) {
+    node.elements.forEach(element => {
+      if (element) expressions.push(element);
+    });
+  } else if (t.isObjectExpression(node)) {
+    node.properties.forEach(property => {
+      if (t.isObjectProperty(property)) expressions.push(property.value);
+    });
+  } else {
+    return null;
+  }
+
+  return expressions
+    .map(expression => ({ path: getDependencyPath(expression) ?? getComputedMemberRoot(expression), node: expression }))
+    .filter((dep): dep is { path: string; node: t.Node } => dep.path !== null);
+}
+
+/**
+ * Path of the object under a computed member such as `items[0]` or `rows[i].id`,
+ * which then covers every read of `items` or `rows` in the effect
+ */
+function getComputedMemberRoot(node: t.Node): string | null {
+  let object = node;
+  while (t.isMemberExpression(object) || t.isOptionalMemberExpression(object)) {
+    object = object.object;
+    const path = getDependencyPath(object);
+    if (path !== null) return path;
+  }
+  return null;
+}
+
+/**
+ * Text of an identifier or non-computed member chain, e.g. `props.user.id`
+ */
+export function getDependencyPath(node: t.Node): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if ((t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) && !node.computed) {
+    const object = getDependencyPath(node.object);
+    return object && t.isIdentifier(node.property) ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Component-scope values read inside an expression, excluding stable hook results
+ */
+export function collectUsedDependencies(
+  expressionPath: NodePath,
+  componentPath: NodePath<t.Function>
+): DependencyUsage[] {
+  const used = new Map<string, DependencyUsage>();
+
+  expressionPath.traverse({
+    Identifier(identifierPath) {
+      if (!identifierPath.isReferencedIdentifier()) return;
+
+      const binding = identifierPath.scope.getBinding(identifierPath.node.name);
+      if (!binding) return;
+      if (!isDeclaredInside(binding, componentPath) || isDeclaredInside(binding, expressionPath)) return;
+      if (isStableBinding(binding)) return;
+
+      const { path, optional } = getReferencePath(identifierPath);
+      if (!used.has(path)) used.set(path, { path, node: identifierPath.node, ...(optional && { optional }) });
+    }
+  });
+
+  // A dependency on `user` already covers `user.id`
+  const paths = Array.from(used.values());
+  return paths.filter(
+    usage => !paths.some(other => other !== usage && usage.path.startsWith(`${other.path}.`))
+  );
+}
+
+/**
+ * Widest member chain read from an identifier reference, with `?.` read as `.`.
+ * Method calls, assignments and `.current` reads depend on the object, not the property.
+ */
+function getReferencePath(identifierPath: NodePath<t.Identifier>): { path: string; optional: boolean } {
+  const segments = [identifierPath.node.name];
+  let optional = false;
+  let current: NodePath = identifierPath;
+
+  while (
+    (current.parentPath?.isMemberExpression() || current.parentPath?.isOptionalMemberExpression()) &&
+    (current.parent as t.MemberExpression).object === current.node
+  ) {
+    const member = current.parentPath as NodePath<t.MemberExpression | t.OptionalMemberExpression>;
+    if (member.node.computed || !t.isIdentifier(member.node.property)) break;
+
+    const isCallee =
+      (member.parentPath?.isCallExpression() || member.parentPath?.isOptionalCallExpression()) &&
+      (member.parent as t.CallExpression).callee === member.node;
+    const isAssigned =
+      member.parentPath?.isAssignmentExpression() && (member.parent as t.AssignmentExpression).left === member.node;
+    if (isCallee || isAssigned || member.node.property.name === 'current') break;
+
+    segments.push(member.node.property.name);
+    optional = optional || (t.isOptionalMemberExpression(member.node) && member.node.optional);
+    current = member;
+  }
+
+  return { path: segments.join('.'), optional };
+}
+
+function isDeclaredInside(binding: Binding, functionPath: NodePath): boolean {
+  return binding.path.isDescendant(functionPath);
+}
+
+/**
+ * Setters from useState/useReducer/useTransition and refs from useRef
+ */
+export function isStableBinding(binding: Binding): boolean {
+  const declarator = binding.path;
+  if (!declarator.isVariableDeclarator()) return false;
+
+  const { id, init } = declarator.node;
+  if (!t.isCallExpression(init)) return false;
+
+  const callee = init.callee;
+  const hookName = t.isIdentifier(callee)
+    ? callee.name
+    : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+      ? callee.property.name
+      : null;
+  const stable = hookName ? STABLE_HOOK_RESULTS[hookName] : undefined;
+
+  if (stable === undefined) return false;
+  if (stable === 'self') return t.isIdentifier(id) && id.name === binding.identifier.name;
+
+  return (
+    t.isArrayPattern(id) &&
+    t.isIdentifier(id.elements[stable]) &&
+    (id.elements[stable] as t.Identifier).name === binding.identifier.name
+  );
+}
@@ -0,0 +1,200 @@
+import { NodePath, types as t } from '@babel/core';
+import generate from '@babel/generator';
+import { DependencyUsage, collectUsedDependencies } from './analysis';
+import { createImportManager } from './imports';
+import { SourceEdit, applyEdits, createPatch } from './patch';
+
+type MemoHook = 'useMemo' | 'useCallback';
+
+/**
+ * Applies rewrites either to the AST or, in dry-run mode, as text edits
+ * against the original source that are turned into a patch
+ */
+export interface DependencyFixer {
+  /** Reference to a React hook, imported from 'react' when not in scope */
+  hook(name: MemoHook): t.Expression;
+  replace(path: NodePath, node: t.Node): void;
+  insertBefore(statement: NodePath<t.Statement>, node: t.Statement): void;
+  /** Add pending imports. Returns the unified diff and the fixed source in dry-run mode. */
+  finish(): { patch: string; code: string } | null;
+}
+
+export interface DependencyFixResult {
+  /** Short description of each rewrite */
+  descriptions: string[];
+  /** Original dependency nodes and missing references that were fixed */
+  fixed: t.Node[];
+}
+
+/**
+ * Create a fixer for one file
+ */
+export function createDependencyFixer(
+  program: NodePath<t.Program>,
+  options: { dryRun?: boolean; code?: string; filename?: string } = {}
+): DependencyFixer {
+  const { dryRun = false, code = '', filename = 'unknown' } = options;
+  const edits: SourceEdit[] = [];
+  const imports = createImportManager(program);
+
+  const print = (node: t.Node, offset: number) =>
+    generate(node).code.split('\n').join(`\n${getIndent(code, offset)}`);
+
+  return {
+    hook(name) {
+      return imports.reference(name);
+    },
+
+    replace(path, node) {
+      if (!dryRun) {
+        path.replaceWith(node);
+        return;
+      }
+      edits.push({ start: path.node.start!, end: path.node.end!, text: print(node, path.node.start!) });
+    },
+
+    insertBefore(statement, node) {
+      if (!dryRun) {
+        statement.insertBefore(node);
+        return;
+      }
+      const start = statement.node.start!;
+      edits.push({ start, end: start, text: `${print(node, start)}\n${getIndent(code, start)}` });
+    },
+
+    finish() {
+      imports.finish(dryRun ? edits : undefined);
+      if (!dryRun || edits.length === 0) return null;
+
+      const fixed = applyEdits(code, edits);
+      return { patch: createPatch(filename, code, edits), code: fixed };
+    }
+  };
+}
+
+/**
+ * Memoize inline object/array/function dependencies with useMemo/useCallback
+ * and append missing dependencies to the dependency list
+ */
+export function fixDependencies(
+  callPath: NodePath<t.CallExpression>,
+  fixer: DependencyFixer,
+  missing: DependencyUsage[],
+  depsIndex: number = 1
+): DependencyFixResult {
+  const result: DependencyFixResult = { descriptions: [], fixed: [] };
+  const componentPath = callPath.getFunctionParent();
+  const depsPath = callPath.get('arguments')[depsIndex];
+
+  if (!componentPath || !depsPath) return result;
+  if (!depsPath.isArrayExpression() && !depsPath.isObjectExpression()) return result;
+
+  // Hooks can only be inserted directly in the component body
+  const statement = callPath.getStatementParent();
+  const canHoist = !!statement && statement.parentPath === componentPath.get('body');
+
+  const memoize = (valuePath: NodePath, name: string): t.Identifier | null => {
+    const isFunction = valuePath.isArrowFunctionExpression() || valuePath.isFunctionExpression();
+    const isLiteral = valuePath.isObjectExpression() || valuePath.isArrayExpression();
+    if (!canHoist || (!isFunction && !isLiteral)) return null;
+
+    const value = valuePath.node as t.Expression;
+    const hookName: MemoHook = isFunction ? 'useCallback' : 'useMemo';
+    const deps = collectUsedDependencies(valuePath, componentPath).map(usage => buildDependencyNode(usage));
+    const id = callPath.scope.generateUidIdentifier(name);
+
+    fixer.insertBefore(
+      statement!,
+      t.variableDeclaration('const', [
+        t.variableDeclarator(
+          id,
+          t.callExpression(fixer.hook(hookName), [
+            isFunction ? value : t.arrowFunctionExpression([], value),
+            t.arrayExpression(deps)
+          ])
+        )
+      ])
+    );
+    result.descriptions.push(`Wrapped dependency '${name}' in ${hookName}`);
+    result.fixed.push(value);
+    return id;
+  };
+
+  let nextDeps: t.Expression;
+  if (depsPath.isArrayExpression()) {
+    const elements = depsPath.get('elements').map((element, index) =>
+      (element.node && memoize(element as NodePath, `dep${index}`)) || element.node
+    );
+    nextDeps = t.arrayExpression([...elements, ...missing.map(usage => buildDependencyNode(usage))]);
+  } else {
+    const objectPath = depsPath as NodePath<t.ObjectExpression>;
+    const properties = objectPath.get('properties').map(property => {
+      if (!property.isObjectProperty()) return property.node;
+
+      const { key, computed } = property.node;
+      const name = t.isIdentifier(key) && !computed ? key.name : 'dep';
+      const id = memoize(property.get('value'), name);
+      return id ? t.objectProperty(key, id, computed) : property.node;
+    });
+    const taken = new Set(objectPath.node.properties.map(getPropertyName).filter(Boolean));
+    const added = missing.map(usage => {
+      const key = createPropertyKey(usage.path, taken);
+      const value = buildDependencyNode(usage);
+      return t.objectProperty(key, value, false, t.isIdentifier(key) && t.isIdentifier(value) && value.name === key.name);
+    });
+    nextDeps = t.objectExpression([...properties, ...added]);
+  }
+
+  missing.forEach(usage => {
+    result.descriptions.push(`Added missing dependency '${usage.path}'`);
+    result.fixed.push(usage.node);
+  });
+
+  if (result.fixed.length > 0) {
+    fixer.replace(depsPath, nextDeps);
+  }
+
+  return result;
+}
+
+// Optional reads are added as `user?.id` so the dependency cannot throw either
+function buildDependencyNode({ path, optional }: DependencyUsage): t.Expression {
+  const [root, ...properties] = path.split('.');
+  return properties.reduce<t.Expression>(
+    (object, property) => optional
+      ? t.optionalMemberExpression(object, t.identifier(property), false, true)
+      : t.memberExpression(object, t.identifier(property)),
+    t.identifier(root)
+  );
+}
+
+// `user.id` → `userId`
+function toPropertyName(path: string): string {
+  return path.replace(/\.(\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function getPropertyName(property: t.ObjectExpression['properties'][number]): string | undefined {
+  if (!t.isObjectProperty(property)) return undefined;
+  if (t.isIdentifier(property.key) && !property.computed) return property.key.name;
+  if (t.isStringLiteral(property.key)) return property.key.value;
+  return undefined;
+}
+
+// A key for a new dependency that no existing key overwrites: `userId`, else `'user.id'`, else `userId2`
+function createPropertyKey(path: string, taken: Set<string | undefined>): t.Identifier | t.StringLiteral {
+  const name = toPropertyName(path);
+  let unique = name;
+  if (taken.has(unique) && !taken.has(path)) {
+    unique = path;
+  } else {
+    for (let suffix = 2; taken.has(unique); suffix += 1) unique = `${name}${suffix}`;
+  }
+
+  taken.add(unique);
+  return unique === path && unique !== name ? t.stringLiteral(path) : t.identifier(unique);
+}
+
+function getIndent(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  return (code.slice(lineStart).match(/^[ \t]*/) || [''])[0];
+}
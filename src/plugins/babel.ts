@@ -1,10 +1,56 @@
-import { NodePath, PluginObj, types as t } from '@babel/core';
+import { BabelFile, NodePath, PluginObj, types as t } from '@babel/core';
+import { relative } from 'path';
+import { analyzeExhaustiveDeps } from './analysis';
+import { DependencyFixer, createDependencyFixer, fixDependencies } from './autofix';
+import { createStaticEffectId, getEnclosingName, injectEffectId } from './effectIds';
+import { CustomHookConfig, ResolvedHook, resolveHookCall } from './hooks';
+import { Lowering, LoweringReport, createLowering } from './lowering';
+import {
+  DEFAULT_SEVERITIES,
+  Diagnostic,
+  DiagnosticRule,
+  RuleSeverities,
+  isSuppressed,
+  parseSuppressions
+} from './diagnostics';
 
 interface PluginState {
+  cwd?: string;
   filename?: string;
+  file: BabelFile;
+  fixer?: DependencyFixer;
+  lowering?: Lowering;
+  effectOrdinal?: number;
+  diagnostics?: Diagnostic[];
+  suppressions?: Map<number, Set<string>>;
   opts: {
+    /** Rewrite dependencies: memoize inline values and add missing ones */
     autoFix?: boolean;
+    /** With autoFix, leave the code untouched and emit a unified diff instead */
+    dryRun?: boolean;
+    /** Receives the dry-run patch (default: logged to the console) */
+    onPatch?: (patch: string, filename: string) => void;
+    /** Warn instead of throwing on error-severity findings */
     warnOnly?: boolean;
+    /** Only collect findings and patches in the file metadata; nothing is logged or thrown */
+    quiet?: boolean;
+    /** Per-rule severity: 'error', 'warning' or 'off' */
+    rules?: RuleSeverities;
+    /** Report missing and unnecessary dependencies (default: true) */
+    exhaustiveDeps?: boolean;
+    /** Give effects without an id a stable one derived from their source location (default: true) */
+    injectIds?: boolean;
+    /** Additional hooks to analyze, such as your own wrappers around useSmartEffect */
+    customHooks?: CustomHookConfig[];
+    /**
+     * Lower calls with static options to plain React hooks, dropping debug and id.
+     * Lowered calls only keep their own options, not SmartEffectProvider defaultOptions.
+     */
+    production?: boolean;
+    /** Module providing useLoweredEffect (default: 'react-smart-effect/lowered') */
+    loweredRuntime?: string;
+    /** Receives the call sites that could not be lowered */
+    onLoweringReport?: (report: LoweringReport, filename: string) => void;
   };
 }
 
@@ -15,99 +61,201 @@ export default function babelPluginSmartEffect(): PluginObj<PluginState> {
   return {
     name: 'babel-plugin-react-smart-effect',
     visitor: {
+      Program: {
+        enter(path: NodePath<t.Program>, state: PluginState) {
+          state.effectOrdinal = 0;
+          state.diagnostics = [];
+          state.suppressions = parseSuppressions(state.file.ast.comments);
+          if (state.opts.production) {
+            state.lowering = createLowering(path, {
+              filename: getRelativeFilename(state),
+              runtime: state.opts.loweredRuntime
+            });
+          }
+          if (state.opts.autoFix) {
+            state.fixer = createDependencyFixer(path, {
+              dryRun: state.opts.dryRun,
+              code: state.file.code,
+              filename: getRelativeFilename(state)
+            });
+          }
+        },
+        exit(_path: NodePath<t.Program>, state: PluginState) {
+          // Exposed on the transform result for tooling
+          Object.assign(state.file.metadata, { smartEffectDiagnostics: state.diagnostics || [] });
+
+          if (state.lowering) {
+            const report = state.lowering.finish();
+            Object.assign(state.file.metadata, { smartEffectLowering: report });
+            state.opts.onLoweringReport?.(report, state.filename || 'unknown');
+          }
+
+          const fix = state.fixer?.finish();
+          if (!fix) return;
+
+          Object.assign(state.file.metadata, { smartEffectPatch: fix.patch, smartEffectFixedCode: fix.code });
+          if (state.opts.onPatch) {
+            state.opts.onPatch(fix.patch, state.filename || 'unknown');
+          } else if (!state.opts.quiet) {
+            console.log(fix.patch);
+          }
+        }
+      },
       CallExpression(path: NodePath<t.CallExpression>, state: PluginState) {
-        const { node } = path;
-        
-        // Check if this is a useSmartEffect call
-        if (
-          t.isIdentifier(node.callee) &&
-          (node.callee.name === 'useSmartEffect' || 
-           node.callee.name === 'useDeepEffect' ||
-           node.callee.name === 'useDebugEffect' ||
-           node.callee.name === 'useSmartLayoutEffect')
-        ) {
-          analyzeDependencies(path, state);
+        // Check if this is a smart-effect hook call
+        const hook = resolveHookCall(path, state.opts.customHooks);
+        if (!hook) return;
+
+        analyzeDependencies(path, state, hook);
+
+        // Production builds drop ids along with the rest of the debug machinery
+        if (state.lowering) {
+          state.lowering.lower(path, hook);
+          return;
+        }
+
+        state.effectOrdinal = (state.effectOrdinal || 0) + 1;
+        if (state.opts.injectIds !== false && hook.optionsIndex !== undefined) {
+          injectEffectId(
+            path,
+            createStaticEffectId(getRelativeFilename(state), getEnclosingName(path), state.effectOrdinal),
+            hook.optionsIndex
+          );
         }
       }
     }
   };
 }
 
-function analyzeDependencies(path: NodePath<t.CallExpression>, state: PluginState): void {
+function analyzeDependencies(path: NodePath<t.CallExpression>, state: PluginState, hook: ResolvedHook): void {
   const { node } = path;
   const { opts = {} } = state;
+  const { effectIndex, depsIndex } = hook;
   
-  if (node.arguments.length < 2) {
+  if (node.arguments.length <= depsIndex) {
     return; // No dependencies array
   }
 
-  const depsArg = node.arguments[1];
+  const depsArg = node.arguments[depsIndex];
   
-  if (!t.isArrayExpression(depsArg)) {
-    return; // Dependencies not an array literal
+  if (!t.isArrayExpression(depsArg) && !t.isObjectExpression(depsArg)) {
+    return; // Dependencies not an array or object literal
   }
 
-  const dependencies = depsArg.elements;
-  const issues: string[] = [];
-  const fixes: Array<() => void> = [];
+  // Named dependencies are labelled by key, positional ones by index
+  const dependencies = t.isArrayExpression(depsArg)
+    ? depsArg.elements.map((dep, index) => ({ dep, label: `at index ${index}` }))
+    : depsArg.properties.map(property => ({
+        dep: t.isObjectProperty(property) ? property.value : null,
+        label: t.isObjectProperty(property) && t.isIdentifier(property.key)
+          ? `'${property.key.name}'`
+          : 'in object'
+      }));
+  const issues: Array<{ rule: DiagnosticRule; message: string; suggestion?: string; node?: t.Node }> = [];
 
-  dependencies.forEach((dep, index) => {
+  dependencies.forEach(({ dep, label }) => {
     if (!dep) return;
 
     // Check for potentially missing dependencies
     if (t.isObjectExpression(dep) || t.isArrayExpression(dep)) {
-      issues.push(`Dependency at index ${index} is an object/array literal that will be recreated on every render`);
-      
-      if (opts.autoFix) {
-        // Suggest wrapping with useMemo
-        fixes.push(() => {
-          console.log(`Consider wrapping dependency at index ${index} with useMemo`);
-        });
-      }
+      issues.push({
+        rule: 'unstable-literal',
+        message: `Dependency ${label} is an object/array literal that will be recreated on every render`,
+        suggestion: 'Wrap it with useMemo',
+        node: dep
+      });
     }
 
     // Check for function expressions
     if (t.isFunctionExpression(dep) || t.isArrowFunctionExpression(dep)) {
-      issues.push(`Dependency at index ${index} is a function expression that will be recreated on every render`);
-      
-      if (opts.autoFix) {
-        fixes.push(() => {
-          console.log(`Consider wrapping dependency at index ${index} with useCallback`);
-        });
-      }
+      issues.push({
+        rule: 'unstable-function',
+        message: `Dependency ${label} is a function expression that will be recreated on every render`,
+        suggestion: 'Wrap it with useCallback',
+        node: dep
+      });
     }
 
-    // Check for missing dependencies (simplified analysis)
+    // Check for dependencies that are not defined
     if (t.isIdentifier(dep)) {
       const binding = path.scope.getBinding(dep.name);
       if (!binding) {
-        issues.push(`Dependency '${dep.name}' at index ${index} is not defined in scope`);
+        issues.push({
+          rule: 'undefined-dependency',
+          message: `Dependency '${dep.name}' ${label} is not defined in scope`,
+          suggestion: `Declare '${dep.name}' or remove it from the dependencies`,
+          node: dep
+        });
       }
     }
   });
 
+  // Compare what the effect reads with what it declares
+  const result = opts.exhaustiveDeps !== false ? analyzeExhaustiveDeps(path, effectIndex, depsIndex) : null;
+  result?.missing.forEach(usage => {
+    issues.push({
+      rule: 'missing-dependency',
+      message: `Missing dependency '${usage.path}'`,
+      suggestion: `Add '${usage.path}' to the dependencies`,
+      node: usage.node
+    });
+  });
+  result?.unnecessary.forEach(dep => {
+    issues.push({
+      rule: 'unnecessary-dependency',
+      message: `Unnecessary dependency '${dep.path}': ${dep.reason}`,
+      suggestion: `Remove '${dep.path}' from the dependencies`,
+      node: dep.node
+    });
+  });
+
+  // Issues that autoFix rewrites (or would rewrite, in dry-run mode) are not reported
+  const fixed = state.fixer
+    ? fixDependencies(path, state.fixer, result?.missing || [], depsIndex).fixed
+    : [];
+
+  const callLine = node.loc?.start.line ?? 0;
+  const diagnostics: Diagnostic[] = [];
+  issues.forEach(issue => {
+    const severity = opts.rules?.[issue.rule] ?? DEFAULT_SEVERITIES[issue.rule];
+    const loc = issue.node?.loc?.start || node.loc?.start;
+    if (severity === 'off' || (issue.node && fixed.includes(issue.node))) return;
+    if (state.suppressions && isSuppressed(state.suppressions, issue.rule, [loc?.line ?? callLine, callLine])) return;
+
+    diagnostics.push({
+      filename: getRelativeFilename(state),
+      line: loc?.line ?? 0,
+      column: (loc?.column ?? 0) + 1,
+      rule: issue.rule,
+      severity,
+      message: issue.message,
+      ...(issue.suggestion && { suggestion: issue.suggestion })
+    });
+  });
+  state.diagnostics?.push(...diagnostics);
+
   // Report issues
-  if (issues.length > 0) {
+  if (diagnostics.length > 0 && !opts.quiet) {
     const filename = state.filename || 'unknown';
-    const line = node.loc?.start.line || 'unknown';
     
-    const message = `[babel-plugin-react-smart-effect] ${filename}:${line}\n${issues.join('\n')}`;
+    const lines = diagnostics.map(d => `${d.severity} ${d.line}:${d.column} ${d.message} (${d.rule})`);
+    const message = `[babel-plugin-react-smart-effect] ${filename}:${callLine}\n${lines.join('\n')}`;
+    const error = (fixed.length > 0 ? path : path.get('arguments')[depsIndex]).buildCodeFrameError(message);
     
-    if (opts.warnOnly) {
-      console.warn(message);
-    } else {
-      throw path.buildCodeFrameError(message);
-    }
-
-    // Apply fixes if enabled
-    if (opts.autoFix && fixes.length > 0) {
-      fixes.forEach(fix => fix());
+    if (!opts.warnOnly && diagnostics.some(d => d.severity === 'error')) {
+      throw error;
     }
+    console.warn(error.message);
   }
 }
 
+// Paths relative to the working directory keep ids and patches machine-independent
+function getRelativeFilename(state: PluginState): string {
+  return state.filename ? relative(state.cwd || '', state.filename).replace(/\\/g, '/') : 'unknown';
+}
+
 // Export plugin configuration helper
-export function createBabelConfig(options: { autoFix?: boolean; warnOnly?: boolean } = {}) {
+export function createBabelConfig(options: PluginState['opts'] = {}) {
   return {
     plugins: [
       [babelPluginSmartEffect, options]
@@ -0,0 +1,244 @@
+import { BabelFileResult, transformAsync } from '@babel/core';
+import { createHash } from 'crypto';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import babelPluginSmartEffect from './babel';
+import { CustomHookConfig, mightUseSmartEffects } from './hooks';
+import { LoweringReport } from './lowering';
+import { Diagnostic, RuleSeverities, formatDiagnosticsJSON, formatDiagnosticsSARIF } from './diagnostics';
+
+export type FilterPattern = string | RegExp | Array<string | RegExp>;
+
+/**
+ * Options shared by the Vite, Rollup, webpack and esbuild integrations
+ */
+export interface SmartEffectPluginOptions {
+  autoFix?: boolean;
+  /** With autoFix, report a patch instead of rewriting the module */
+  dryRun?: boolean;
+  onPatch?: (patch: string, filename: string) => void;
+  warnOnly?: boolean;
+  /** Per-rule severity: 'error', 'warning' or 'off' */
+  rules?: RuleSeverities;
+  /** Write all findings of the build to a JSON or SARIF file at the end of the build */
+  report?: { file: string; format?: 'json' | 'sarif' };
+  injectIds?: boolean;
+  customHooks?: CustomHookConfig[];
+  /**
+   * Lower smart effects to plain React hooks (intended for production builds).
+   * Lowered calls only keep their own options, not SmartEffectProvider defaultOptions.
+   */
+  production?: boolean;
+  loweredRuntime?: string;
+  /** Receives the build-wide lowering report (default: skipped call sites are logged) */
+  onLoweringReport?: (report: LoweringReport) => void;
+  /** Only analyze: modules are never rewritten and the transform always returns null */
+  analyzeOnly?: boolean;
+  include?: FilterPattern;
+  exclude?: FilterPattern;
+}
+
+export interface ModuleResult {
+  code: string | null;
+  map: BabelFileResult['map'];
+  diagnostics: Diagnostic[];
+  lowering?: LoweringReport;
+}
+
+/**
+ * Bundler-agnostic analysis shared by every integration, so diagnostics,
+ * autofix and lowering behave the same whichever bundler runs them
+ */
+export interface SmartEffectCore {
+  /** Whether a module id passes the include/exclude filters */
+  filter(id: string): boolean;
+  /** Forget the results of the previous build */
+  buildStart(): void;
+  /** Analyze (and unless analyzeOnly, rewrite) a module; null when it is left untouched */
+  transform(code: string, id: string): Promise<ModuleResult | null>;
+  /** Write the report and the lowering summary of the build */
+  buildEnd(): void;
+}
+
+/**
+ * Create the shared transform pipeline; `name` prefixes its console output
+ */
+export function createSmartEffectCore(options: SmartEffectPluginOptions, name: string): SmartEffectCore {
+  const {
+    autoFix = false,
+    dryRun = false,
+    onPatch,
+    warnOnly = true,
+    rules,
+    report,
+    injectIds,
+    customHooks,
+    production = false,
+    loweredRuntime,
+    onLoweringReport,
+    analyzeOnly = false,
+    include = /\.(tsx?|jsx?)$/,
+    exclude = /node_modules/
+  } = options;
+
+  // Results of the current build per module, replaced whenever a module is transformed again
+  const modules = new Map<string, ModuleResult>();
+  // Results by content hash, kept across builds and HMR updates
+  const cache = new Map<string, ModuleResult & { hash: string }>();
+
+  return {
+    filter(id) {
+      return shouldTransform(id, include, exclude);
+    },
+
+    buildStart() {
+      modules.clear();
+    },
+
+    async transform(code, id) {
+      if (!shouldTransform(id, include, exclude) || !mightUseSmartEffects(code, customHooks)) {
+        modules.delete(id);
+        return null;
+      }
+
+      const hash = createHash('sha1').update(code).digest('hex');
+      let result = cache.get(id);
+
+      if (!result || result.hash !== hash) {
+        try {
+          result = { hash, ...await analyzeModule(code, id) };
+        } catch (error) {
+          if (warnOnly) {
+            console.warn(`[${name}] ${id}: ${error}`);
+            return null;
+          }
+          throw error;
+        }
+        cache.set(id, result);
+      }
+
+      modules.set(id, result);
+      return result;
+    },
+
+    buildEnd() {
+      const results = Array.from(modules.values());
+
+      if (report) {
+        const findings = results.reduce<Diagnostic[]>((all, result) => all.concat(result.diagnostics), []);
+        mkdirSync(dirname(report.file), { recursive: true });
+        writeFileSync(
+          report.file,
+          report.format === 'sarif' ? formatDiagnosticsSARIF(findings) : formatDiagnosticsJSON(findings)
+        );
+      }
+
+      if (!production) return;
+
+      const loweringReport = results.reduce<LoweringReport>(
+        (total, result) => ({
+          lowered: total.lowered + (result.lowering?.lowered || 0),
+          skipped: total.skipped.concat(result.lowering?.skipped || [])
+        }),
+        { lowered: 0, skipped: [] }
+      );
+      if (onLoweringReport) {
+        onLoweringReport(loweringReport);
+      } else if (loweringReport.skipped.length > 0) {
+        console.warn(
+          `[${name}] ${loweringReport.skipped.length} of ${
+            loweringReport.lowered + loweringReport.skipped.length
+          } smart effects kept the full runtime:\n${loweringReport.skipped
+            .map(site => `  ${site.filename}:${site.line}:${site.column} ${site.hook}: ${site.reason}`)
+            .join('\n')}`
+        );
+      }
+    }
+  };
+
+  async function analyzeModule(code: string, id: string): Promise<ModuleResult> {
+    const result = await transformAsync(code, {
+      filename: id,
+      // Analyze-only runs skip code generation entirely
+      code: !analyzeOnly,
+      sourceMaps: !analyzeOnly,
+      sourceFileName: id,
+      plugins: [
+        [babelPluginSmartEffect, analyzeOnly
+          ? { autoFix: autoFix && dryRun, dryRun, onPatch, warnOnly, rules, injectIds: false, customHooks }
+          : {
+              autoFix,
+              dryRun,
+              onPatch,
+              warnOnly,
+              rules,
+              injectIds,
+              customHooks,
+              production,
+              loweredRuntime
+            }]
+      ],
+      parserOpts: {
+        sourceType: 'module',
+        allowImportExportEverywhere: true,
+        plugins: [
+          'jsx',
+          'typescript',
+          'decorators-legacy',
+          'classProperties'
+        ]
+      }
+    });
+
+    const metadata = result?.metadata as {
+      smartEffectLowering?: LoweringReport;
+      smartEffectDiagnostics?: Diagnostic[];
+    } | undefined;
+
+    return {
+      code: analyzeOnly ? null : result?.code || null,
+      map: result?.map || null,
+      diagnostics: metadata?.smartEffectDiagnostics || [],
+      lowering: metadata?.smartEffectLowering
+    };
+  }
+}
+
+/**
+ * Format a finding as a single line, e.g. for overlays and bundler warnings
+ */
+export function formatFinding(diagnostic: Diagnostic): string {
+  const { severity, line, column, message, rule, suggestion } = diagnostic;
+  return `${severity} ${line}:${column} ${message} (${rule})${suggestion ? ` - ${suggestion}` : ''}`;
+}
+
+export function shouldTransform(
+  id: string,
+  include: FilterPattern | undefined,
+  exclude: FilterPattern | undefined
+): boolean {
+  const normalizedId = id.replace(/\\/g, '/');
+
+  // Check exclude patterns
+  if (exclude) {
+    const excludePatterns = Array.isArray(exclude) ? exclude : [exclude];
+    for (const pattern of excludePatterns) {
+      if (pattern instanceof RegExp ? pattern.test(normalizedId) : normalizedId.includes(pattern)) {
+        return false;
+      }
+    }
+  }
+
+  // Check include patterns
+  if (include) {
+    const includePatterns = Array.isArray(include) ? include : [include];
+    for (const pattern of includePatterns) {
+      if (pattern instanceof RegExp ? pattern.test(normalizedId) : normalizedId.includes(pattern)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return true;
+}
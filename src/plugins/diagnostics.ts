@@ -0,0 +1,126 @@
+import { types as t } from '@babel/core';
+
+export type DiagnosticRule =
+  | 'missing-dependency'
+  | 'unnecessary-dependency'
+  | 'undefined-dependency'
+  | 'unstable-literal'
+  | 'unstable-function';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'off';
+
+export type RuleSeverities = Partial<Record<DiagnosticRule, DiagnosticSeverity>>;
+
+export interface Diagnostic {
+  /** Path relative to the working directory */
+  filename: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  rule: DiagnosticRule;
+  severity: Exclude<DiagnosticSeverity, 'off'>;
+  message: string;
+  /** Suggested fix, in words */
+  suggestion?: string;
+}
+
+export const RULE_DESCRIPTIONS: Record<DiagnosticRule, string> = {
+  'missing-dependency': 'A value read by the effect is missing from its dependencies',
+  'unnecessary-dependency': 'A dependency is never read by the effect or cannot change between renders',
+  'undefined-dependency': 'A dependency is not defined in scope',
+  'unstable-literal': 'An object or array literal dependency is recreated on every render',
+  'unstable-function': 'A function expression dependency is recreated on every render'
+};
+
+export const DEFAULT_SEVERITIES: Record<DiagnosticRule, Exclude<DiagnosticSeverity, 'off'>> = {
+  'missing-dependency': 'error',
+  'unnecessary-dependency': 'warning',
+  'undefined-dependency': 'error',
+  'unstable-literal': 'warning',
+  'unstable-function': 'warning'
+};
+
+const SUPPRESSION_PATTERN = /^\s*smart-effect-disable-(next-line|line)\b(.*)$/;
+
+/**
+ * Lines suppressed by `smart-effect-disable-next-line [rules]` and trailing
+ * `smart-effect-disable-line [rules]` comments, mapped to the suppressed rules
+ * (`*` when no rules are listed)
+ */
+export function parseSuppressions(comments: ReadonlyArray<t.Comment> | null | undefined): Map<number, Set<string>> {
+  const suppressions = new Map<number, Set<string>>();
+
+  (comments || []).forEach(comment => {
+    const match = SUPPRESSION_PATTERN.exec(comment.value.replace(/^\*+/, ''));
+    if (!match || !comment.loc) return;
+
+    const line = match[1] === 'next-line' ? comment.loc.end.line + 1 : comment.loc.start.line;
+    const rules = match[2].split(/[\s,]+/).filter(rule => rule && rule !== '--');
+    const suppressed = suppressions.get(line) || new Set<string>();
+    (rules.length > 0 ? rules : ['*']).forEach(rule => suppressed.add(rule));
+    suppressions.set(line, suppressed);
+  });
+
+  return suppressions;
+}
+
+/**
+ * Whether a rule is suppressed on any of the given lines
+ */
+export function isSuppressed(
+  suppressions: Map<number, Set<string>>,
+  rule: DiagnosticRule,
+  lines: number[]
+): boolean {
+  return lines.some(line => {
+    const suppressed = suppressions.get(line);
+    return !!suppressed && (suppressed.has('*') || suppressed.has(rule));
+  });
+}
+
+/**
+ * Serialize diagnostics as a versioned JSON report
+ */
+export function formatDiagnosticsJSON(diagnostics: Diagnostic[]): string {
+  return JSON.stringify({ version: 1, diagnostics }, null, 2);
+}
+
+/**
+ * Serialize diagnostics as a SARIF 2.1.0 log for code-scanning tools
+ */
+export function formatDiagnosticsSARIF(diagnostics: Diagnostic[]): string {
+  const rules = Object.keys(RULE_DESCRIPTIONS) as DiagnosticRule[];
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'react-smart-effect',
+          informationUri: 'https://github.com/Saif-hadd/react-smart-effect',
+          rules: rules.map(rule => ({
+            id: rule,
+            shortDescription: { text: RULE_DESCRIPTIONS[rule] },
+            defaultConfiguration: { level: DEFAULT_SEVERITIES[rule] }
+          }))
+        }
+      },
+      results: diagnostics.map(diagnostic => ({
+        ruleId: diagnostic.rule,
+        ruleIndex: rules.indexOf(diagnostic.rule),
+        level: diagnostic.severity,
+        message: {
+          text: diagnostic.suggestion ? `${diagnostic.message}. ${diagnostic.suggestion}.` : diagnostic.message
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: diagnostic.filename },
+            region: { startLine: diagnostic.line, startColumn: diagnostic.column }
+          }
+        }]
+      }))
+    }]
+  }, null, 2);
+}
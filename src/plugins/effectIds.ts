@@ -0,0 +1,88 @@
+import { NodePath, types as t } from '@babel/core';
+
+/**
+ * Name of the component or hook enclosing a call, looking through
+ * wrappers such as `memo(() => ...)` and `forwardRef(function () {...})`
+ */
+export function getEnclosingName(path: NodePath): string {
+  let functionPath = path.getFunctionParent();
+
+  while (functionPath) {
+    const name = getFunctionName(functionPath);
+    if (name && (name === 'default' || /^(use[A-Z0-9]|[A-Z])/.test(name))) return name;
+    functionPath = functionPath.parentPath.getFunctionParent();
+  }
+
+  return 'anonymous';
+}
+
+/**
+ * Build a stable effect id such as `src/UserList.tsx:UserList#2`
+ */
+export function createStaticEffectId(filename: string, enclosingName: string, ordinal: number): string {
+  return `${filename}:${enclosingName}#${ordinal}`;
+}
+
+/**
+ * Add `id` and `perInstance` to a smart-effect call's options unless an id is already given.
+ * Returns false when the call already has an id.
+ */
+export function injectEffectId(
+  callPath: NodePath<t.CallExpression>,
+  id: string,
+  optionsIndex: number = 2
+): boolean {
+  const args = callPath.node.arguments;
+  const injected = [
+    t.objectProperty(t.identifier('id'), t.stringLiteral(id)),
+    t.objectProperty(t.identifier('perInstance'), t.booleanLiteral(true))
+  ];
+
+  if (args.length > optionsIndex) {
+    const options = args[optionsIndex];
+    if (t.isSpreadElement(options) || t.isArgumentPlaceholder(options)) return false;
+
+    if (t.isObjectExpression(options)) {
+      const hasId = options.properties.some(property =>
+        t.isObjectProperty(property) &&
+        !property.computed &&
+        (t.isIdentifier(property.key, { name: 'id' }) || t.isStringLiteral(property.key, { value: 'id' }))
+      );
+      if (hasId) return false;
+
+      // Spread options come after the injected id so they can still override it
+      options.properties.unshift(...injected);
+      return true;
+    }
+
+    args[optionsIndex] = t.objectExpression([...injected, t.spreadElement(options as t.Expression)]);
+    return true;
+  }
+
+  while (args.length < optionsIndex) {
+    args.push(t.identifier('undefined'));
+  }
+  args.push(t.objectExpression(injected));
+  return true;
+}
+
+function getFunctionName(functionPath: NodePath<t.Function>): string | null {
+  const { node } = functionPath;
+  if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+    return node.id.name;
+  }
+
+  // Look through wrapper calls to the variable the function is assigned to
+  let current: NodePath = functionPath;
+  while (current.parentPath?.isCallExpression()) {
+    current = current.parentPath;
+  }
+
+  if (current.parentPath?.isVariableDeclarator() && t.isIdentifier(current.parentPath.node.id)) {
+    return current.parentPath.node.id.name;
+  }
+  if (current.parentPath?.isExportDefaultDeclaration() || functionPath.parentPath.isExportDefaultDeclaration()) {
+    return 'default';
+  }
+  return null;
+}
@@ -0,0 +1,56 @@
+import { Loader, Plugin } from 'esbuild';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { SmartEffectPluginOptions, createSmartEffectCore } from './core';
+
+/**
+ * esbuild plugin for analyzing useSmartEffect dependencies
+ */
+export function esbuildPluginSmartEffect(options: SmartEffectPluginOptions = {}): Plugin {
+  const core = createSmartEffectCore(options, 'esbuild-plugin-react-smart-effect');
+
+  return {
+    name: 'esbuild-plugin-react-smart-effect',
+
+    setup(build) {
+      const loaders = build.initialOptions.loader || {};
+
+      build.onStart(() => {
+        core.buildStart();
+      });
+
+      build.onLoad({ filter: /\.[cm]?[jt]sx?$/, namespace: 'file' }, async args => {
+        if (!core.filter(args.path)) return undefined;
+
+        const source = await readFile(args.path, 'utf8');
+        const result = await core.transform(source, args.path);
+        if (!result?.code) return undefined;
+
+        // esbuild has no source map input for loaded contents, so the map is inlined
+        const map = result.map
+          ? `\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(result.map)).toString('base64')}`
+          : '';
+
+        return {
+          contents: result.code + map,
+          loader: getLoader(args.path, loaders)
+        };
+      });
+
+      build.onEnd(() => {
+        core.buildEnd();
+      });
+    }
+  };
+}
+
+// The transformed code keeps its TypeScript and JSX syntax, so the build's own
+// loader for the extension (e.g. `'.js': 'jsx'`) comes first
+function getLoader(path: string, loaders: Record<string, Loader>): Loader {
+  const extension = extname(path);
+  if (loaders[extension]) return loaders[extension];
+  if (/\.tsx$/.test(path)) return 'tsx';
+  if (/\.[cm]?ts$/.test(path)) return 'ts';
+  if (/\.jsx$/.test(path)) return 'jsx';
+  return 'js';
+}
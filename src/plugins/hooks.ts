@@ -0,0 +1,122 @@
+import { NodePath, types as t } from '@babel/core';
+
+export interface CustomHookConfig {
+  /** Exported name of the hook (or local name when no source is given) */
+  name: string;
+  /** Module the hook is imported from; without it, any call by that name matches */
+  source?: string;
+  /** Position of the effect callback (default: 0) */
+  effectIndex?: number;
+  /** Position of the dependencies (default: 1) */
+  depsIndex?: number;
+  /** Position of the options object; ids are only injected when set */
+  optionsIndex?: number;
+}
+
+export interface ResolvedHook {
+  name: string;
+  /** Configured through customHooks rather than exported by the package */
+  custom: boolean;
+  effectIndex: number;
+  depsIndex: number;
+  optionsIndex?: number;
+}
+
+export const PACKAGE_NAME = 'react-smart-effect';
+
+const BUILTIN_HOOKS = [
+  'useSmartEffect',
+  'useSmartLayoutEffect',
+  'useDeepEffect',
+  'useDebugEffect',
+  'useSmartAsyncEffect'
+];
+
+/**
+ * Resolve a call to a smart-effect hook through its import binding.
+ * Handles aliased imports, namespace members and configured custom hooks;
+ * locally declared functions that merely share a hook's name are ignored.
+ * Unbound calls (e.g. auto-imported globals) match by name.
+ */
+export function resolveHookCall(
+  path: NodePath<t.CallExpression>,
+  customHooks: CustomHookConfig[] = []
+): ResolvedHook | null {
+  const { callee } = path.node;
+
+  if (t.isIdentifier(callee)) {
+    const binding = path.scope.getBinding(callee.name);
+    const imported = binding ? getImportedName(binding.path) : null;
+
+    if (imported) return matchHook(imported.name, imported.source, customHooks);
+
+    // Custom hooks without a source match any call by name
+    const custom = customHooks.find(hook => !hook.source && hook.name === callee.name);
+    if (custom) return toResolvedHook(custom, true);
+
+    return !binding && BUILTIN_HOOKS.includes(callee.name) ? toResolvedHook({ name: callee.name, optionsIndex: 2 }) : null;
+  }
+
+  // Namespace member calls such as `SE.useSmartEffect(...)`
+  if (
+    t.isMemberExpression(callee) &&
+    !callee.computed &&
+    t.isIdentifier(callee.object) &&
+    t.isIdentifier(callee.property)
+  ) {
+    const binding = path.scope.getBinding(callee.object.name);
+    if (binding?.path.isImportNamespaceSpecifier()) {
+      const declaration = binding.path.parentPath as NodePath<t.ImportDeclaration>;
+      return matchHook(callee.property.name, declaration.node.source.value, customHooks);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cheap text pre-check: false when a module cannot contain a smart-effect call
+ */
+export function mightUseSmartEffects(code: string, customHooks: CustomHookConfig[] = []): boolean {
+  return (
+    code.includes(PACKAGE_NAME) ||
+    BUILTIN_HOOKS.some(name => code.includes(name)) ||
+    customHooks.some(hook => code.includes(hook.name))
+  );
+}
+
+function matchHook(name: string, source: string, customHooks: CustomHookConfig[]): ResolvedHook | null {
+  const custom = customHooks.find(hook => hook.name === name && (!hook.source || hook.source === source));
+  if (custom) return toResolvedHook(custom, true);
+
+  return isPackageSource(source) && BUILTIN_HOOKS.includes(name)
+    ? toResolvedHook({ name, optionsIndex: 2 })
+    : null;
+}
+
+function toResolvedHook(config: CustomHookConfig, custom: boolean = false): ResolvedHook {
+  return {
+    name: config.name,
+    custom,
+    effectIndex: config.effectIndex ?? 0,
+    depsIndex: config.depsIndex ?? 1,
+    ...(config.optionsIndex !== undefined && { optionsIndex: config.optionsIndex })
+  };
+}
+
+function getImportedName(bindingPath: NodePath): { name: string; source: string } | null {
+  if (!bindingPath.isImportSpecifier()) return null;
+
+  const declaration = bindingPath.parentPath as NodePath<t.ImportDeclaration>;
+  if (declaration.node.importKind === 'type') return null;
+
+  const { imported } = bindingPath.node;
+  return {
+    name: t.isIdentifier(imported) ? imported.name : imported.value,
+    source: declaration.node.source.value
+  };
+}
+
+function isPackageSource(source: string): boolean {
+  return source === PACKAGE_NAME || source.startsWith(`${PACKAGE_NAME}/`);
+}
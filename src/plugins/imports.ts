@@ -0,0 +1,113 @@
+import { NodePath, types as t } from '@babel/core';
+import { SourceEdit } from './patch';
+
+/**
+ * Adds named imports on demand, reusing bindings that are already in scope
+ */
+export interface ImportManager {
+  /** Expression referring to an export of a module, queued for import when needed */
+  reference(name: string, source?: string): t.Expression;
+  /** Insert the queued imports into the AST, or record them as text edits */
+  finish(edits?: SourceEdit[]): void;
+}
+
+/**
+ * Create an import manager for one file
+ */
+export function createImportManager(program: NodePath<t.Program>): ImportManager {
+  // source → imported name → local identifier
+  const pending = new Map<string, Map<string, t.Identifier>>();
+
+  return {
+    reference(name, source = 'react') {
+      const queued = pending.get(source)?.get(name);
+      if (queued) return t.identifier(queued.name);
+
+      const binding = program.scope.getBinding(name);
+      if (binding && isImportOf(binding.path, name, source)) return t.identifier(name);
+
+      // A same-named local binding that is not React's export gets a fresh import below
+      const reactBinding = program.scope.getBinding('React');
+      if (source === 'react' && reactBinding && isNamespaceOf(reactBinding.path, 'react')) {
+        return t.memberExpression(t.identifier('React'), t.identifier(name));
+      }
+
+      const local = program.scope.hasBinding(name) ? program.scope.generateUidIdentifier(name) : t.identifier(name);
+      if (!pending.has(source)) pending.set(source, new Map());
+      pending.get(source)!.set(name, local);
+      return t.identifier(local.name);
+    },
+
+    finish(edits) {
+      pending.forEach((names, source) => {
+        const specifiers = Array.from(names).map(([name, local]) =>
+          t.importSpecifier(t.identifier(local.name), t.identifier(name))
+        );
+        if (edits) {
+          addImportEdit(program, source, specifiers, edits);
+        } else {
+          addImport(program, source, specifiers);
+        }
+      });
+      pending.clear();
+    }
+  };
+}
+
+function isImportOf(bindingPath: NodePath, name: string, source: string): boolean {
+  if (!bindingPath.isImportSpecifier()) return false;
+  const { imported } = bindingPath.node;
+  const importedName = t.isIdentifier(imported) ? imported.name : imported.value;
+  return importedName === name && (bindingPath.parent as t.ImportDeclaration).source.value === source;
+}
+
+function isNamespaceOf(bindingPath: NodePath, source: string): boolean {
+  return (
+    (bindingPath.isImportDefaultSpecifier() || bindingPath.isImportNamespaceSpecifier()) &&
+    (bindingPath.parent as t.ImportDeclaration).source.value === source
+  );
+}
+
+function findImport(program: NodePath<t.Program>, source: string): NodePath<t.ImportDeclaration> | undefined {
+  return program.get('body').find(
+    (statement): statement is NodePath<t.ImportDeclaration> =>
+      statement.isImportDeclaration() &&
+      statement.node.source.value === source &&
+      statement.node.importKind !== 'type' &&
+      !statement.node.specifiers.some(specifier => t.isImportNamespaceSpecifier(specifier))
+  );
+}
+
+function addImport(program: NodePath<t.Program>, source: string, specifiers: t.ImportSpecifier[]): void {
+  const existing = findImport(program, source);
+  if (existing) {
+    existing.pushContainer('specifiers', specifiers);
+  } else {
+    program.unshiftContainer('body', t.importDeclaration(specifiers, t.stringLiteral(source)));
+  }
+}
+
+function addImportEdit(
+  program: NodePath<t.Program>,
+  source: string,
+  specifiers: t.ImportSpecifier[],
+  edits: SourceEdit[]
+): void {
+  const names = specifiers
+    .map(({ imported, local }) => {
+      const name = t.isIdentifier(imported) ? imported.name : imported.value;
+      return name === local.name ? name : `${name} as ${local.name}`;
+    })
+    .join(', ');
+
+  const existing = findImport(program, source);
+  const last = existing?.node.specifiers[existing.node.specifiers.length - 1];
+  if (last && t.isImportSpecifier(last)) {
+    edits.push({ start: last.end!, end: last.end!, text: `, ${names}` });
+  } else if (last) {
+    edits.push({ start: last.end!, end: last.end!, text: `, { ${names} }` });
+  } else {
+    const start = program.node.body[0]?.start ?? 0;
+    edits.push({ start, end: start, text: `import { ${names} } from '${source}';\n` });
+  }
+}
@@ -0,0 +1,210 @@
+import { NodePath, types as t } from '@babel/core';
+import { ResolvedHook } from './hooks';
+import { ImportManager, createImportManager } from './imports';
+
+type Binding = NonNullable<ReturnType<NodePath['scope']['getBinding']>>;
+
+export interface LoweringSkip {
+  filename: string;
+  line: number;
+  column: number;
+  hook: string;
+  reason: string;
+}
+
+export interface LoweringReport {
+  /** Number of calls rewritten to plain React hooks or the minimal runtime */
+  lowered: number;
+  /** Call sites that keep the full runtime, and why */
+  skipped: LoweringSkip[];
+}
+
+export const LOWERED_RUNTIME = 'react-smart-effect/lowered';
+
+// Debug-only options that are dropped when lowering
+const DROPPED_OPTIONS = ['debug', 'id', 'perInstance', 'component', 'logger'];
+
+// Options whose behavior lives in the full runtime
+const FULL_RUNTIME_OPTIONS = [
+  'comparators',
+  'debounce',
+  'throttle',
+  'leading',
+  'trailing',
+  'maxWait',
+  'enabled',
+  'whenEnabled',
+  'runOnce',
+  'maxRuns'
+];
+
+/**
+ * Lowers the smart-effect calls of one file and tracks what it could not lower
+ */
+export interface Lowering {
+  /** Lower a call, or record why it keeps the full runtime */
+  lower(path: NodePath<t.CallExpression>, hook: ResolvedHook): void;
+  /** Add the new imports, drop hook imports left unused and return the report */
+  finish(): LoweringReport;
+}
+
+interface LoweredCall {
+  layout: boolean;
+  skipFirstRender: boolean;
+  deepCompare: boolean;
+  compareFunction?: t.Expression;
+}
+
+/**
+ * Create the production lowering pass for one file
+ */
+export function createLowering(
+  program: NodePath<t.Program>,
+  options: { filename: string; runtime?: string }
+): Lowering {
+  const imports = createImportManager(program);
+  const report: LoweringReport = { lowered: 0, skipped: [] };
+  const loweredReferences = new Map<Binding, number>();
+
+  return {
+    lower(path, hook) {
+      const { callee, loc } = path.node;
+      const binding = t.isIdentifier(callee)
+        ? path.scope.getBinding(callee.name)
+        : t.isMemberExpression(callee) && t.isIdentifier(callee.object)
+          ? path.scope.getBinding(callee.object.name)
+          : undefined;
+
+      const reason = lowerEffectCall(path, hook, imports, options.runtime);
+      if (reason) {
+        report.skipped.push({
+          filename: options.filename,
+          line: loc?.start.line ?? 0,
+          column: loc?.start.column ?? 0,
+          hook: hook.name,
+          reason
+        });
+        return;
+      }
+
+      report.lowered += 1;
+      if (binding) loweredReferences.set(binding, (loweredReferences.get(binding) || 0) + 1);
+    },
+
+    finish() {
+      imports.finish();
+
+      // Without remaining references the package import, and with it the devtools, can be dropped
+      loweredReferences.forEach((count, binding) => {
+        if (count < binding.referencePaths.length || !binding.path.parentPath?.isImportDeclaration()) return;
+
+        const declaration = binding.path.parentPath;
+        if (declaration.node.specifiers.length === 1) {
+          declaration.remove();
+        } else {
+          binding.path.remove();
+        }
+      });
+
+      return report;
+    }
+  };
+}
+
+/**
+ * Rewrite a smart-effect call with statically known options into useEffect,
+ * useLayoutEffect or the minimal useLoweredEffect runtime.
+ * Returns the reason when the call cannot be lowered, or null once it is.
+ */
+export function lowerEffectCall(
+  path: NodePath<t.CallExpression>,
+  hook: ResolvedHook,
+  imports: ImportManager,
+  runtime: string = LOWERED_RUNTIME
+): string | null {
+  if (hook.custom) return 'custom hooks are not lowered';
+  if (hook.name === 'useSmartAsyncEffect') return 'async effects need the full runtime';
+
+  const [effect, deps, options, ...rest] = path.node.arguments;
+  if (!effect || rest.length > 0) return 'unexpected number of arguments';
+  if (path.node.arguments.some(arg => !t.isExpression(arg))) return 'arguments use spread syntax';
+
+  const call: LoweredCall = {
+    layout: hook.name === 'useSmartLayoutEffect',
+    skipFirstRender: false,
+    deepCompare: hook.name === 'useDeepEffect'
+  };
+
+  const optionsReason = readOptions(path, options, call);
+  if (optionsReason) return optionsReason;
+
+  const loweredDeps = lowerDependencies(deps);
+  if (loweredDeps === null) return 'dependencies are not an array or object literal';
+
+  const args: t.Expression[] = [effect as t.Expression];
+  let callee: t.Expression;
+
+  if (!call.skipFirstRender && !call.deepCompare && !call.compareFunction) {
+    callee = imports.reference(call.layout ? 'useLayoutEffect' : 'useEffect');
+    if (loweredDeps) args.push(loweredDeps);
+  } else {
+    callee = imports.reference('useLoweredEffect', runtime);
+    args.push(
+      loweredDeps || t.identifier('undefined'),
+      t.objectExpression([
+        ...(call.skipFirstRender ? [t.objectProperty(t.identifier('skipFirstRender'), t.booleanLiteral(true))] : []),
+        ...(call.deepCompare ? [t.objectProperty(t.identifier('deepCompare'), t.booleanLiteral(true))] : []),
+        ...(call.compareFunction ? [t.objectProperty(t.identifier('compareFunction'), call.compareFunction)] : []),
+        ...(call.layout ? [t.objectProperty(t.identifier('layout'), t.booleanLiteral(true))] : [])
+      ])
+    );
+  }
+
+  path.replaceWith(t.callExpression(callee, args));
+  return null;
+}
+
+function readOptions(path: NodePath, options: t.Node | undefined, call: LoweredCall): string | null {
+  if (!options || t.isIdentifier(options, { name: 'undefined' })) return null;
+  if (!t.isObjectExpression(options)) return 'options are not an object literal';
+
+  for (const property of options.properties) {
+    if (!t.isObjectProperty(property)) return 'options contain spreads or methods';
+    if (property.computed || !t.isIdentifier(property.key)) return 'options have computed keys';
+
+    const name = property.key.name;
+    const value = property.value as t.Expression;
+
+    if (DROPPED_OPTIONS.includes(name)) {
+      if (!path.scope.isPure(value)) return `${name} option has side effects`;
+    } else if (FULL_RUNTIME_OPTIONS.includes(name)) {
+      return `${name} needs the full runtime`;
+    } else if (name === 'loopDetection') {
+      if (!t.isBooleanLiteral(value, { value: false })) return 'loopDetection needs the full runtime';
+    } else if (name === 'mode') {
+      if (!t.isStringLiteral(value)) return 'mode is not a string literal';
+      call.layout = value.value === 'layoutEffect';
+    } else if (name === 'skipFirstRender' || name === 'deepCompare') {
+      if (!t.isBooleanLiteral(value)) return `${name} is not a boolean literal`;
+      call[name] = value.value;
+    } else if (name === 'compareFunction') {
+      call.compareFunction = value;
+    }
+  }
+
+  return null;
+}
+
+// Named dependencies become a plain array in declaration order; null when not static
+function lowerDependencies(deps: t.Node | undefined): t.ArrayExpression | undefined | null {
+  if (!deps || t.isIdentifier(deps, { name: 'undefined' })) return undefined;
+  if (t.isArrayExpression(deps)) return deps;
+  if (!t.isObjectExpression(deps)) return null;
+
+  const values: t.Expression[] = [];
+  for (const property of deps.properties) {
+    if (!t.isObjectProperty(property) || property.computed) return null;
+    values.push(property.value as t.Expression);
+  }
+  return t.arrayExpression(values);
+}
@@ -0,0 +1,141 @@
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Lines removed and added at a 0-based line of the original
+interface LineChange {
+  line: number;
+  removed: string[];
+  added: string[];
+}
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Apply non-overlapping text edits to a source string
+ */
+export function applyEdits(code: string, edits: SourceEdit[]): string {
+  // Apply from the end so offsets stay valid; edits at the same offset keep their order
+  return edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index)
+    .reduce(
+      (result, { edit }) => result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+      code
+    );
+}
+
+/**
+ * Unified diff of applying edits to a file, in `git apply` compatible form.
+ * Hunks are built from the edited line ranges, so the cost follows the edits
+ * rather than the file size.
+ */
+export function createPatch(filename: string, original: string, edits: SourceEdit[]): string {
+  const lines = splitLines(original);
+  const changes = collectLineChanges(original, lines, edits);
+  if (changes.length === 0) return '';
+
+  // Changes closer than twice the context share a hunk
+  const hunks: LineChange[][] = [];
+  changes.forEach(change => {
+    const hunk = hunks[hunks.length - 1];
+    const previous = hunk?.[hunk.length - 1];
+    if (previous && change.line - (previous.line + previous.removed.length) <= CONTEXT_LINES * 2) {
+      hunk.push(change);
+    } else {
+      hunks.push([change]);
+    }
+  });
+
+  const output = [`--- a/${filename}`, `+++ b/${filename}`];
+  let offset = 0;
+
+  hunks.forEach(hunk => {
+    const last = hunk[hunk.length - 1];
+    const start = Math.max(0, hunk[0].line - CONTEXT_LINES);
+    const end = Math.min(lines.length, last.line + last.removed.length + CONTEXT_LINES);
+    const body: string[] = [];
+    let line = start;
+    let delta = 0;
+
+    hunk.forEach(({ line: changeLine, removed, added }) => {
+      while (line < changeLine) body.push(` ${lines[line++]}`);
+      removed.forEach(text => body.push(`-${text}`));
+      added.forEach(text => body.push(`+${text}`));
+      line += removed.length;
+      delta += added.length - removed.length;
+    });
+    while (line < end) body.push(` ${lines[line++]}`);
+
+    output.push(`@@ -${start + 1},${end - start} +${start + offset + 1},${end - start + delta} @@`, ...body);
+    offset += delta;
+  });
+
+  return `${output.join('\n')}\n`;
+}
+
+function splitLines(text: string): string[] {
+  return (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+}
+
+// Groups edits by the original lines they touch and reduces each group to its changed lines
+function collectLineChanges(original: string, lines: string[], edits: SourceEdit[]): LineChange[] {
+  const lineStarts = lines.reduce<number[]>(
+    (starts, text, index) => (index === 0 ? [0] : starts.concat(starts[index - 1] + lines[index - 1].length + 1)),
+    []
+  );
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+
+  const groups: Array<{ first: number; last: number; edits: SourceEdit[] }> = [];
+  edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.index - b.index)
+    .forEach(({ edit }) => {
+      const first = lineOf(edit.start);
+      const last = lineOf(edit.end);
+      const group = groups[groups.length - 1];
+      if (group && first <= group.last) {
+        group.last = Math.max(group.last, last);
+        group.edits.push(edit);
+      } else {
+        groups.push({ first, last, edits: [edit] });
+      }
+    });
+
+  return groups.reduce<LineChange[]>((changes, { first, last, edits: groupEdits }) => {
+    const from = lineStarts[first];
+    const to = Math.max(lineStarts[last] + lines[last].length, ...groupEdits.map(edit => edit.end));
+    const text = applyEdits(
+      original.slice(from, to),
+      groupEdits.map(edit => ({ ...edit, start: edit.start - from, end: edit.end - from }))
+    );
+
+    let removed = lines.slice(first, last + 1);
+    let added = text.split('\n');
+    let line = first;
+
+    // Keep only the lines that actually differ
+    while (removed.length > 0 && added.length > 0 && removed[0] === added[0]) {
+      removed = removed.slice(1);
+      added = added.slice(1);
+      line++;
+    }
+    while (removed.length > 0 && added.length > 0 && removed[removed.length - 1] === added[added.length - 1]) {
+      removed = removed.slice(0, -1);
+      added = added.slice(0, -1);
+    }
+
+    return removed.length > 0 || added.length > 0 ? changes.concat({ line, removed, added }) : changes;
+  }, []);
+}
@@ -0,0 +1,30 @@
+import { Plugin } from 'rollup';
+import { SmartEffectPluginOptions, createSmartEffectCore } from './core';
+
+/**
+ * Rollup plugin for analyzing useSmartEffect dependencies
+ */
+export function rollupPluginSmartEffect(options: SmartEffectPluginOptions = {}): Plugin {
+  const core = createSmartEffectCore(options, 'rollup-plugin-react-smart-effect');
+
+  return {
+    name: 'rollup-plugin-react-smart-effect',
+
+    buildStart() {
+      core.buildStart();
+    },
+
+    buildEnd() {
+      core.buildEnd();
+    },
+
+    async transform(code: string, id: string) {
+      const result = await core.transform(code, id);
+
+      return result?.code ? {
+        code: result.code,
+        map: result.map
+      } : null;
+    }
+  };
+}
@@ -1,97 +1,64 @@
-import { Plugin } from 'vite';
-import { transformAsync } from '@babel/core';
-import babelPluginSmartEffect from './babel';
+import { Plugin, ViteDevServer } from 'vite';
+import { Diagnostic } from './diagnostics';
+import { SmartEffectPluginOptions, createSmartEffectCore, formatFinding } from './core';
 
-interface VitePluginOptions {
-  autoFix?: boolean;
-  warnOnly?: boolean;
-  include?: string | RegExp | Array<string | RegExp>;
-  exclude?: string | RegExp | Array<string | RegExp>;
+interface VitePluginOptions extends SmartEffectPluginOptions {
+  /** Show findings in the dev server's error overlay (default: true) */
+  overlay?: boolean;
 }
 
 /**
  * Vite plugin for analyzing useSmartEffect dependencies
  */
 export function vitePluginSmartEffect(options: VitePluginOptions = {}): Plugin {
-  const {
-    autoFix = false,
-    warnOnly = true,
-    include = /\.(tsx?|jsx?)$/,
-    exclude = /node_modules/
-  } = options;
+  const { overlay = true } = options;
+  const core = createSmartEffectCore(options, 'vite-plugin-react-smart-effect');
+  let server: ViteDevServer | undefined;
 
   return {
     name: 'vite-plugin-react-smart-effect',
     enforce: 'pre',
+
+    configureServer(devServer) {
+      server = devServer;
+    },
+
+    buildStart() {
+      core.buildStart();
+    },
+
+    buildEnd() {
+      core.buildEnd();
+    },
     
     async transform(code: string, id: string) {
-      // Check if file should be processed
-      if (!shouldTransform(id, include, exclude)) {
-        return null;
-      }
-
-      try {
-        const result = await transformAsync(code, {
-          filename: id,
-          plugins: [
-            [babelPluginSmartEffect, { autoFix, warnOnly }]
-          ],
-          parserOpts: {
-            sourceType: 'module',
-            allowImportExportEverywhere: true,
-            plugins: [
-              'jsx',
-              'typescript',
-              'decorators-legacy',
-              'classProperties'
-            ]
-          }
-        });
+      const result = await core.transform(code, id);
+      if (!result) return null;
 
-        return result?.code ? {
-          code: result.code,
-          map: result.map
-        } : null;
-      } catch (error) {
-        if (warnOnly) {
-          console.warn(`[vite-plugin-react-smart-effect] ${id}: ${error}`);
-          return null;
-        }
-        throw error;
+      if (server && overlay && result.diagnostics.length > 0) {
+        showOverlay(server, id, result.diagnostics);
       }
+
+      return result.code ? {
+        code: result.code,
+        map: result.map
+      } : null;
     }
   };
 }
 
-function shouldTransform(
-  id: string, 
-  include: VitePluginOptions['include'],
-  exclude: VitePluginOptions['exclude']
-): boolean {
-  const normalizedId = id.replace(/\\/g, '/');
-
-  // Check exclude patterns
-  if (exclude) {
-    const excludePatterns = Array.isArray(exclude) ? exclude : [exclude];
-    for (const pattern of excludePatterns) {
-      if (pattern instanceof RegExp ? pattern.test(normalizedId) : normalizedId.includes(pattern)) {
-        return false;
-      }
-    }
-  }
-
-  // Check include patterns
-  if (include) {
-    const includePatterns = Array.isArray(include) ? include : [include];
-    for (const pattern of includePatterns) {
-      if (pattern instanceof RegExp ? pattern.test(normalizedId) : normalizedId.includes(pattern)) {
-        return true;
-      }
+function showOverlay(server: ViteDevServer, id: string, findings: Diagnostic[]): void {
+  const [first] = findings;
+  server.ws.send({
+    type: 'error',
+    err: {
+      plugin: 'vite-plugin-react-smart-effect',
+      id,
+      loc: { file: id, line: first.line, column: first.column },
+      message: findings.map(formatFinding).join('\n'),
+      stack: ''
     }
-    return false;
-  }
-
-  return true;
+  });
 }
 
 // Export configuration helper
@@ -0,0 +1,72 @@
+import { SmartEffectCore, SmartEffectPluginOptions, createSmartEffectCore } from './core';
+
+// Structural subsets of webpack's loader and compiler APIs, so webpack stays optional
+interface LoaderContext {
+  resourcePath: string;
+  async(): (error: Error | null, content?: string, sourceMap?: unknown) => void;
+  getOptions(): WebpackLoaderOptions;
+}
+
+interface Compiler {
+  options: { module: { rules: unknown[] } };
+  hooks: {
+    run: { tap(name: string, callback: () => void): void };
+    done: { tap(name: string, callback: () => void): void };
+  };
+}
+
+interface WebpackLoaderOptions extends SmartEffectPluginOptions {
+  /** Set by SmartEffectWebpackPlugin so the loader shares its build state */
+  core?: SmartEffectCore;
+}
+
+const PLUGIN_NAME = 'webpack-plugin-react-smart-effect';
+
+// Cores of loaders configured without the plugin, one per options object
+const standaloneCores = new WeakMap<SmartEffectPluginOptions, SmartEffectCore>();
+
+/**
+ * webpack loader for analyzing useSmartEffect dependencies.
+ * Use it through SmartEffectWebpackPlugin to also get build reports.
+ */
+export default function smartEffectLoader(this: LoaderContext, source: string, inputMap?: unknown): void {
+  const callback = this.async();
+  const options = this.getOptions() || {};
+
+  let core = options.core || standaloneCores.get(options);
+  if (!core) {
+    core = createSmartEffectCore(options, PLUGIN_NAME);
+    standaloneCores.set(options, core);
+  }
+
+  core.transform(source, this.resourcePath).then(
+    result => result?.code ? callback(null, result.code, result.map) : callback(null, source, inputMap),
+    error => callback(error)
+  );
+}
+
+/**
+ * webpack plugin that registers the loader for modules matching include/exclude
+ * and writes the report and lowering summary when a compilation is done
+ */
+export class SmartEffectWebpackPlugin {
+  private readonly core: SmartEffectCore;
+
+  constructor(options: SmartEffectPluginOptions = {}) {
+    this.core = createSmartEffectCore(options, PLUGIN_NAME);
+  }
+
+  apply(compiler: Compiler): void {
+    const { core } = this;
+
+    compiler.options.module.rules.push({
+      test: (resource: string) => core.filter(resource),
+      enforce: 'pre',
+      use: [{ loader: __filename, options: { core } }]
+    });
+
+    // Watch rebuilds only re-run the loader for changed modules, so results are kept between them
+    compiler.hooks.run.tap(PLUGIN_NAME, () => core.buildStart());
+    compiler.hooks.done.tap(PLUGIN_NAME, () => core.buildEnd());
+  }
+}
@@ -0,0 +1,53 @@
+import { createContext, createElement, useContext, useMemo, useRef } from 'react';
+import { EffectReportStore, SmartEffectProviderProps, UseSmartEffectOptions } from './types';
+import { createEffectReportStore, getGlobalReportStore } from './devtools';
+
+export interface SmartEffectSettings {
+  defaultOptions?: UseSmartEffectOptions;
+  store: EffectReportStore;
+  /** Reporting override for the subtree; the store's own flag applies when unset */
+  enabled?: boolean;
+}
+
+const SmartEffectContext = createContext<SmartEffectSettings | null>(null);
+
+/**
+ * Supplies default options, a report store and an enable flag to the smart
+ * effects below it. Nested providers inherit what they do not override.
+ */
+export function SmartEffectProvider({ defaultOptions, store, enabled, children }: SmartEffectProviderProps) {
+  const parent = useContext(SmartEffectContext);
+  // Only created once neither a store nor an enclosing provider supplies one, which can change between renders
+  const ownStoreRef = useRef<EffectReportStore | null>(null);
+  if (!store && !parent && !ownStoreRef.current) ownStoreRef.current = createEffectReportStore();
+
+  const resolvedStore = store || parent?.store || ownStoreRef.current!;
+  const resolvedEnabled = enabled ?? parent?.enabled;
+  const value = useMemo<SmartEffectSettings>(
+    () => ({
+      defaultOptions: parent?.defaultOptions || defaultOptions
+        ? { ...parent?.defaultOptions, ...defaultOptions }
+        : undefined,
+      store: resolvedStore,
+      enabled: resolvedEnabled
+    }),
+    [parent, defaultOptions, resolvedStore, resolvedEnabled]
+  );
+
+  return createElement(SmartEffectContext.Provider, { value }, children);
+}
+
+/**
+ * Settings of the nearest SmartEffectProvider, or the global store and flag outside of one
+ */
+export function useSmartEffectSettings(): SmartEffectSettings {
+  const settings = useContext(SmartEffectContext);
+  return settings || { store: getGlobalReportStore() };
+}
+
+/**
+ * Whether effects using these settings report
+ */
+export function isReportingEnabled(settings: SmartEffectSettings): boolean {
+  return settings.enabled ?? settings.store.isEnabled();
+}
@@ -0,0 +1,125 @@
+import { EffectCallback } from 'react';
+import { EffectSchedule, EffectScheduleStatus, UseSmartEffectOptions } from './types';
+
+export interface ResolvedSchedule {
+  mode: EffectSchedule['mode'];
+  wait: number;
+  leading: boolean;
+  trailing: boolean;
+  maxWait?: number;
+}
+
+export interface EffectScheduler {
+  /** Schedule a triggered run according to the given timing */
+  trigger(
+    effect: EffectCallback,
+    schedule: ResolvedSchedule,
+    notify: (status: EffectScheduleStatus) => void
+  ): void;
+  /** Cancel pending timers and release the last executed run */
+  dispose(): void;
+}
+
+/**
+ * Resolves debounce/throttle options into a single schedule.
+ * Throttle takes precedence over debounce when both are set.
+ */
+export function resolveSchedule(options: UseSmartEffectOptions): ResolvedSchedule | null {
+  const { debounce, throttle, leading, trailing, maxWait } = options;
+
+  if (throttle !== undefined) {
+    return {
+      mode: 'throttle',
+      wait: throttle,
+      leading: leading ?? true,
+      trailing: trailing ?? true,
+      maxWait: throttle
+    };
+  }
+
+  if (debounce !== undefined) {
+    return {
+      mode: 'debounce',
+      wait: debounce,
+      leading: leading ?? false,
+      trailing: trailing ?? true,
+      maxWait
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Creates a timer-based scheduler that owns the cleanup of the runs it executes,
+ * so a deferred run is only torn down when the next one actually executes
+ */
+export function createEffectScheduler(): EffectScheduler {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let burstStart = 0;
+  let lastInvoke: number | undefined;
+  let trailing = true;
+  let pending: { effect: EffectCallback; notify: (status: EffectScheduleStatus) => void } | null = null;
+  let cleanup: ReturnType<EffectCallback>;
+
+  const invoke = (effect: EffectCallback) => {
+    lastInvoke = Date.now();
+    if (typeof cleanup === 'function') cleanup();
+    cleanup = effect();
+  };
+
+  const flush = () => {
+    timer = undefined;
+    const run = pending;
+    pending = null;
+    if (!run) return;
+
+    if (trailing) {
+      invoke(run.effect);
+      run.notify('executed');
+    } else {
+      run.notify('cancelled');
+    }
+  };
+
+  return {
+    trigger(effect, schedule, notify) {
+      const now = Date.now();
+      trailing = schedule.trailing;
+
+      // A throttled run right after a trailing run waits for the rest of the interval
+      const throttled = schedule.mode === 'throttle' && lastInvoke !== undefined && now - lastInvoke < schedule.wait;
+
+      if (timer === undefined) {
+        burstStart = throttled ? lastInvoke! : now;
+        if (schedule.leading && !throttled) {
+          invoke(effect);
+          notify('executed');
+        } else {
+          pending = { effect, notify };
+        }
+      } else {
+        clearTimeout(timer);
+        pending = { effect, notify };
+      }
+
+      const delay = schedule.maxWait === undefined
+        ? schedule.wait
+        : Math.min(schedule.wait, Math.max(0, schedule.maxWait - (now - burstStart)));
+      timer = setTimeout(flush, delay);
+    },
+
+    dispose() {
+      if (timer !== undefined) clearTimeout(timer);
+      timer = undefined;
+
+      if (pending) {
+        pending.notify('cancelled');
+        pending = null;
+      }
+
+      if (typeof cleanup === 'function') cleanup();
+      cleanup = undefined;
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { EffectReport, EffectSession } from './types';
+import { clearEffectReports, getEffectLog, storeReport } from './devtools';
+import { toSerializable } from './utils';
+
+export const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * Export the recorded effect reports as versioned JSON
+ */
+export function exportSession(): string {
+  const session: EffectSession = {
+    version: SESSION_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    reports: getEffectLog()
+  };
+
+  return JSON.stringify(toSerializable(session));
+}
+
+/**
+ * Import an exported session, replacing the current reports unless merge is set.
+ * Returns the number of imported reports.
+ */
+export function importSession(
+  data: string | EffectSession,
+  options: { merge?: boolean } = {}
+): number {
+  const session: EffectSession = typeof data === 'string' ? JSON.parse(data) : data;
+
+  if (!session || typeof session !== 'object' || !Array.isArray(session.reports)) {
+    throw new Error('[react-smart-effect] Invalid session: expected an object with a reports array');
+  }
+  if (session.version !== SESSION_FORMAT_VERSION) {
+    throw new Error(
+      `[react-smart-effect] Unsupported session version ${session.version} (expected ${SESSION_FORMAT_VERSION})`
+    );
+  }
+
+  if (!options.merge) clearEffectReports();
+
+  session.reports
+    .slice()
+    .sort((a: EffectReport, b: EffectReport) => a.timestamp - b.timestamp)
+    .forEach(report => storeReport(report));
+
+  return session.reports.length;
+}
@@ -0,0 +1,197 @@
+import { EffectLogger, EffectReport, EffectReportSink, ReportSinkOptions } from './types';
+import { toSerializable } from './utils';
+import { getLogger } from './logger';
+
+interface RegisteredSink {
+  sink: EffectReportSink;
+  options: ReportSinkOptions;
+  matches: (report: EffectReport) => boolean;
+  queue: EffectReport[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Registered sinks, in registration order
+const sinks: RegisteredSink[] = [];
+// Reports recorded during render, handed to sinks in a microtask
+let pending: EffectReport[] = [];
+
+/**
+ * Register a sink that receives effect reports, optionally filtered and batched.
+ * Returns a function that flushes and unregisters the sink.
+ */
+export function registerReportSink(
+  sink: EffectReportSink,
+  options: ReportSinkOptions = {}
+): () => void {
+  const entry: RegisteredSink = {
+    sink,
+    options,
+    matches: createReportFilter(options.filter),
+    queue: []
+  };
+  sinks.push(entry);
+
+  return () => {
+    const index = sinks.indexOf(entry);
+    if (index === -1) return;
+
+    deliverPending();
+    flushSink(entry);
+    sinks.splice(index, 1);
+    entry.sink.close?.();
+  };
+}
+
+/**
+ * Subscribe to every effect report as it is recorded. Returns an unsubscribe function.
+ */
+export function subscribeToEffectReports(
+  listener: (report: EffectReport) => void,
+  options: ReportSinkOptions = {}
+): () => void {
+  return registerReportSink({ write: reports => reports.forEach(listener) }, options);
+}
+
+/**
+ * Deliver all queued reports immediately
+ */
+export function flushReportSinks(): void {
+  deliverPending();
+  sinks.forEach(flushSink);
+}
+
+/**
+ * Hand a report to every registered sink whose filter matches it. Reports are
+ * recorded during render, so delivery waits for a microtask: sinks and
+ * subscribers never run inside React's render.
+ */
+export function dispatchReport(report: EffectReport): void {
+  if (sinks.length === 0) return;
+
+  pending.push(report);
+  if (pending.length === 1) Promise.resolve().then(deliverPending);
+}
+
+function deliverPending(): void {
+  const reports = pending;
+  pending = [];
+  reports.forEach(queueReport);
+}
+
+function queueReport(report: EffectReport): void {
+  sinks.forEach(entry => {
+    if (!guard(() => entry.matches(report), `filter a report of ${report.id}`)) return;
+
+    const { batchSize, flushInterval, latestOnly, maxQueueSize } = entry.options;
+
+    if (latestOnly) {
+      entry.queue = entry.queue.filter(queued => queued.id !== report.id);
+    }
+    entry.queue.push(report);
+    if (maxQueueSize !== undefined && entry.queue.length > maxQueueSize) {
+      entry.queue.splice(0, entry.queue.length - maxQueueSize);
+    }
+
+    if (batchSize === undefined && flushInterval === undefined) {
+      flushSink(entry);
+    } else if (batchSize !== undefined && entry.queue.length >= batchSize) {
+      flushSink(entry);
+    } else if (flushInterval !== undefined && entry.timer === undefined) {
+      entry.timer = setTimeout(() => flushSink(entry), flushInterval);
+    }
+  });
+}
+
+/**
+ * Sink that keeps reports in memory, handy in tests
+ */
+export function createMemorySink(): EffectReportSink & { reports: EffectReport[]; clear(): void } {
+  const memorySink = {
+    reports: [] as EffectReport[],
+    write(reports: EffectReport[]) {
+      memorySink.reports.push(...reports);
+    },
+    clear() {
+      memorySink.reports = [];
+    }
+  };
+  return memorySink;
+}
+
+/**
+ * Sink that forwards report batches to other windows through a BroadcastChannel
+ */
+export function createBroadcastChannelSink(channelName: string = 'react-smart-effect'): EffectReportSink {
+  const channel = new BroadcastChannel(channelName);
+
+  return {
+    write(reports) {
+      channel.postMessage({ type: 'EFFECT_REPORTS', payload: toSerializable(reports) });
+    },
+    close() {
+      channel.close();
+    }
+  };
+}
+
+/**
+ * Sink that POSTs report batches as JSON to a collector endpoint
+ */
+export function createHttpSink(
+  url: string,
+  options: { headers?: Record<string, string>; logger?: EffectLogger } = {}
+): EffectReportSink {
+  return {
+    write(reports) {
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(toSerializable(reports)),
+        keepalive: true
+      }).catch(error => {
+        getLogger(options.logger).log('warn', {
+          type: 'sink-failed',
+          message: `[react-smart-effect] Failed to send ${reports.length} reports to ${url}`,
+          error
+        });
+      });
+    }
+  };
+}
+
+function flushSink(entry: RegisteredSink): void {
+  if (entry.timer !== undefined) {
+    clearTimeout(entry.timer);
+    entry.timer = undefined;
+  }
+  if (entry.queue.length === 0) return;
+
+  const batch = entry.queue;
+  entry.queue = [];
+  guard(() => entry.sink.write(batch), `deliver ${batch.length} reports`);
+}
+
+// A throwing filter, sink or subscriber is logged and never breaks the others
+function guard<T>(fn: () => T, action: string): T | undefined {
+  try {
+    return fn();
+  } catch (error) {
+    getLogger().log('warn', { type: 'sink-failed', message: `[react-smart-effect] Report sink failed to ${action}`, error });
+    return undefined;
+  }
+}
+
+/**
+ * Build a predicate from an effect id glob, regular expression or predicate
+ */
+export function createReportFilter(filter: ReportSinkOptions['filter']): (report: EffectReport) => boolean {
+  if (!filter) return () => true;
+  if (typeof filter === 'function') return filter;
+  if (filter instanceof RegExp) return report => filter.test(report.id);
+
+  // Glob-style pattern where * matches any sequence of characters
+  const pattern = new RegExp(
+    `^${filter.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`
+  );
+  return report => pattern.test(report.id);
+}
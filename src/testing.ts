@@ -0,0 +1,176 @@
+import { createElement, ReactNode } from 'react';
+import { renderHook, RenderHookResult } from '@testing-library/react';
+import { EffectReport, EffectReportStore, EffectSkipReason } from './types';
+import { createEffectReportStore } from './devtools';
+import { SmartEffectProvider } from './provider';
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      /** The effect with this id ran, optionally exactly `times` times */
+      toHaveRun(times?: number): R;
+      /** The effect's latest render skipped it for this reason */
+      toHaveBeenSkippedBecause(reason: EffectSkipReason): R;
+      /** The dependencies (names, or indexes for arrays) that changed in the effect's latest render */
+      toHaveChangedDeps(expected: Array<string | number>): R;
+    }
+  }
+}
+
+// Store of the current test; replaced by resetTestStore
+let testStore = createTestStore();
+
+function createTestStore(): EffectReportStore {
+  return createEffectReportStore({ enabled: true });
+}
+
+/**
+ * The in-memory store that effects rendered through this module report to
+ */
+export function getTestStore(): EffectReportStore {
+  return testStore;
+}
+
+/**
+ * Replace the test store with an empty one (done before each test by setupEffectTesting)
+ */
+export function resetTestStore(): EffectReportStore {
+  testStore = createTestStore();
+  return testStore;
+}
+
+/**
+ * Provider routing the reports of its subtree to the test store, for use with `render`
+ */
+export function EffectTestProvider({ children }: { children?: ReactNode }) {
+  return createElement(SmartEffectProvider, { store: testStore, enabled: true }, children);
+}
+
+/**
+ * Render a hook once per step, passing each step as props, with reports
+ * going to the test store
+ */
+export function renderEffectSequence<Props>(
+  callback: (props: Props) => void,
+  steps: Props[]
+): RenderHookResult<void, Props> & { store: EffectReportStore } {
+  if (steps.length === 0) {
+    throw new Error('[react-smart-effect] renderEffectSequence needs at least one step');
+  }
+
+  const [initialProps, ...rest] = steps;
+  const rendered = renderHook(callback, { initialProps, wrapper: EffectTestProvider });
+  rest.forEach(props => rendered.rerender(props));
+
+  return { ...rendered, store: testStore };
+}
+
+function getHistory(id: string): EffectReport[] {
+  return testStore.getHistory(id);
+}
+
+function describeChanged(report: EffectReport): Array<string | number> {
+  const { changed, names } = report.dependencies;
+  return changed.reduce<Array<string | number>>(
+    (labels, isChanged, index) => (isChanged ? labels.concat(names ? names[index] : index) : labels),
+    []
+  );
+}
+
+/**
+ * Jest matchers asserting on the reports of the test store by effect id
+ */
+export const effectMatchers = {
+  toHaveRun(this: jest.MatcherContext, id: string, times?: number) {
+    const runs = getHistory(id).filter(report => report.triggered).length;
+    const pass = times === undefined ? runs > 0 : runs === times;
+
+    return {
+      pass,
+      message: () => times === undefined
+        ? `expected effect ${this.utils.printReceived(id)} ${pass ? 'not ' : ''}to have run, but it ran ${runs} times`
+        : `expected effect ${this.utils.printReceived(id)} ${pass ? 'not ' : ''}to have run ${times} times, but it ran ${runs} times`
+    };
+  },
+
+  toHaveBeenSkippedBecause(this: jest.MatcherContext, id: string, reason: EffectSkipReason) {
+    const latest = testStore.getReport(id);
+    const actual = latest ? (latest.triggered ? 'it ran' : `it was skipped because of ${latest.skipReason}`) : 'it never rendered';
+    const pass = !!latest && !latest.triggered && latest.skipReason === reason;
+
+    return {
+      pass,
+      message: () =>
+        `expected effect ${this.utils.printReceived(id)} ${pass ? 'not ' : ''}to have been skipped because of ${this.utils.printExpected(reason)}, but ${actual}`
+    };
+  },
+
+  toHaveChangedDeps(this: jest.MatcherContext, id: string, expected: Array<string | number>) {
+    const latest = testStore.getReport(id);
+    const changed = latest ? describeChanged(latest) : [];
+    const pass = !!latest && this.equals(changed, expected);
+
+    return {
+      pass,
+      message: () => latest
+        ? `expected effect ${this.utils.printReceived(id)} ${pass ? 'not ' : ''}to have changed dependencies ${this.utils.printExpected(expected)}, received ${this.utils.printReceived(changed)}`
+        : `expected effect ${this.utils.printReceived(id)} to have rendered`
+    };
+  }
+};
+
+const GENERATED_ID = /^effect_\d+_[a-z0-9]+/;
+
+/**
+ * Snapshot serializer for EffectReport: timestamps, durations, generated ids
+ * and per-instance discriminators are replaced with placeholders
+ */
+export const effectReportSerializer = {
+  test(value: unknown): boolean {
+    const report = value as EffectReport | null;
+    return (
+      !!report &&
+      typeof report === 'object' &&
+      typeof report.id === 'string' &&
+      typeof report.triggered === 'boolean' &&
+      typeof report.timestamp === 'number' &&
+      typeof report.dependencies === 'object'
+    );
+  },
+
+  serialize(
+    report: EffectReport,
+    config: unknown,
+    indentation: string,
+    depth: number,
+    refs: unknown,
+    printer: (value: unknown, ...args: any[]) => string
+  ): string {
+    const normalizeId = (id: string) => id.replace(GENERATED_ID, '<generated>').replace(/@\w+$/, '@<instance>');
+    const timing = report.timing && Object.keys(report.timing).reduce<Record<string, string>>((all, key) => {
+      all[key] = '<duration>';
+      return all;
+    }, {});
+
+    const normalized = {
+      ...report,
+      id: normalizeId(report.id),
+      ...(report.baseId && { baseId: normalizeId(report.baseId) }),
+      timestamp: '<timestamp>',
+      ...(timing && { timing })
+    };
+
+    return printer(normalized, config, indentation, depth, refs);
+  }
+};
+
+/**
+ * Register the matchers and serializer, and give every test a fresh store
+ */
+export function setupEffectTesting(): void {
+  expect.extend(effectMatchers);
+  expect.addSnapshotSerializer(effectReportSerializer);
+  beforeEach(() => {
+    resetTestStore();
+  });
+}
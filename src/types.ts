@@ -1,4 +1,4 @@
-import { DependencyList, EffectCallback } from 'react';
+import { DependencyList, EffectCallback, ReactNode } from 'react';
 
 export interface UseSmartEffectOptions {
   /** Skip execution on first render */
@@ -11,31 +11,394 @@ export interface UseSmartEffectOptions {
   deepCompare?: boolean;
   /** Custom comparison function */
   compareFunction?: (prev: DependencyList, next: DependencyList) => boolean;
+  /** Per-dependency comparison strategies keyed by index or name, overriding deepCompare */
+  comparators?: DependencyComparators;
   /** Unique identifier for this effect (for debugging) */
   id?: string;
+  /** Append a per-mount discriminator to id so instances can be told apart (set by the Babel plugin) */
+  perInstance?: boolean;
+  /** Name of the component owning this effect, used to group effects in graphs */
+  component?: string;
+  /** Delay execution until dependencies have settled for this many milliseconds */
+  debounce?: number;
+  /** Execute at most once per this many milliseconds (takes precedence over debounce) */
+  throttle?: number;
+  /** Execute on the leading edge of a burst (default: false for debounce, true for throttle) */
+  leading?: boolean;
+  /** Execute on the trailing edge of a burst (default: true) */
+  trailing?: boolean;
+  /** Maximum time a debounced run may be deferred, in milliseconds */
+  maxWait?: number;
+  /** Runaway effect detection for this effect (on by default in development only), or false to disable it */
+  loopDetection?: LoopDetectionOptions | false;
+  /** Logger for this effect's debug output and warnings (default: the global logger) */
+  logger?: EffectLogger;
+  /** Skip runs while false, or while the predicate over current and previous deps returns false */
+  enabled?: boolean | ((deps: DependencyList, prevDeps: DependencyList | undefined) => boolean);
+  /**
+   * When a disabled effect becomes enabled: 'immediate' (default) runs right away if a run
+   * was skipped while disabled, 'next-change' waits for the next dependency change
+   */
+  whenEnabled?: 'immediate' | 'next-change';
+  /** Run at most once (same as maxRuns: 1) */
+  runOnce?: boolean;
+  /** Stop running after the effect has executed this many times */
+  maxRuns?: number;
 }
 
+export type LoopAction = 'warn' | 'throw' | 'break';
+
+export interface LoopDetectionOptions {
+  /** Number of triggers within the window that counts as a loop */
+  maxTriggers?: number;
+  /** Length of the sliding window, in milliseconds */
+  windowMs?: number;
+  /** Warn, throw, or stop executing the effect until its dependencies stabilize */
+  action?: LoopAction;
+}
+
+export type EffectSkipReason =
+  | 'first-render'
+  | 'deps-unchanged'
+  | 'disabled'
+  | 'max-runs'
+  | 'circuit-breaker';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** A changed dependency in a deps-changed event */
+export interface LoggedDependencyChange {
+  name: string;
+  prev: unknown;
+  next: unknown;
+  /** Structural diff lines, present when both values are objects */
+  diff?: string[];
+}
+
+/** Structured events emitted by effects and the DevTools helpers */
+export type EffectLogEvent =
+  | {
+      type: 'effect-will-run';
+      effectId: string;
+      dependencies: string[] | Record<string, string>;
+      isFirstRender: boolean;
+      /** Set when the run is debounced or throttled */
+      schedule?: { mode: 'debounce' | 'throttle'; wait: number };
+    }
+  | { type: 'effect-skipped'; effectId: string; reason: EffectSkipReason; message: string }
+  | {
+      type: 'effect-scheduled';
+      effectId: string;
+      status: EffectScheduleStatus;
+      mode: 'debounce' | 'throttle';
+      wait: number;
+    }
+  | { type: 'deps-changed'; effectId?: string; changes: LoggedDependencyChange[] }
+  | { type: 'analysis-warning'; effectId?: string; message: string; analysis: DependencyAnalysis }
+  | { type: 'loop-detected'; effectId: string; message: string; action: LoopAction }
+  | { type: 'leak-detected'; effectId: string; message: string; leaks: LeakedResource[] }
+  | { type: 'effect-rejected'; effectId: string; message: string; error: unknown }
+  | { type: 'sink-failed'; message: string; error: unknown }
+  | { type: 'effect-graph'; reports: EffectReport[]; history?: Record<string, EffectReport[]> }
+  | { type: 'notice'; message: string };
+
+/**
+ * Receives every log event; see createConsoleLogger, createJsonLinesLogger and silentLogger
+ */
+export interface EffectLogger {
+  log(level: LogLevel, event: EffectLogEvent): void;
+}
+
+/**
+ * How a single dependency is compared: by identity, one level deep, fully deep,
+ * by the value at a property path (`key:user.id`), or with a custom equality function
+ */
+export type DependencyComparator =
+  | 'is'
+  | 'shallow'
+  | 'deep'
+  | `key:${string}`
+  | ((prev: any, next: any) => boolean);
+
+export type DependencyComparators = Record<number | string, DependencyComparator>;
+
+export interface DependencyComparisonOptions {
+  deepCompare?: boolean;
+  comparators?: DependencyComparators;
+  /** Dependency names, when deps were passed in object form */
+  names?: string[];
+}
+
+/** Object form of dependencies, e.g. `{ userId, filters, onSave }` */
+export type NamedDependencies = Record<string, unknown>;
+
+export type SmartDependencies = DependencyList | NamedDependencies;
+
 export interface DependencyAnalysis {
   primitives: any[];
   objects: any[];
   functions: any[];
   potentiallyMissing: string[];
   redundant: any[];
+  names?: string[];
 }
 
 export interface EffectReport {
   id: string;
+  /** Id shared by every mount of this effect, when ids are per instance */
+  baseId?: string;
+  /** Owning component, when known */
+  component?: string;
   triggered: boolean;
+  /** Why the effect did not run, when triggered is false */
+  skipReason?: EffectSkipReason;
   dependencies: {
     previous: DependencyList;
     current: DependencyList;
     changed: boolean[];
+    names?: string[];
+    /** Path-level diffs of changed object dependencies, aligned with current */
+    diffs?: Array<DependencyDiff | undefined>;
   };
   timestamp: number;
+  /** Number of renders of this effect's component so far */
   renderCount: number;
+  /** Number of renders that triggered this effect so far */
+  triggerCount?: number;
+  /** Durations measured for the latest execution */
+  timing?: EffectTiming;
+  /** Timing state, only present for debounced or throttled effects */
+  schedule?: EffectSchedule;
+  /** Resources left registered after cleanup so far, only present for debug effects that leaked */
+  leaks?: EffectLeakCounts;
+  /** Outcome of the latest run, only present for async effects */
+  async?: {
+    status: AsyncEffectStatus;
+    error?: unknown;
+  };
+}
+
+export interface DependencyChange {
+  /** Path of the change, e.g. `filters.range.start` or `items[4]` */
+  path: string;
+  kind: 'changed' | 'added' | 'removed';
+  prev?: any;
+  next?: any;
+}
+
+export interface DependencyDiff {
+  changes: DependencyChange[];
+  /** True when the change list was capped */
+  truncated: boolean;
+}
+
+export interface EffectTiming {
+  /** Time spent in the effect body, in milliseconds */
+  effectDuration?: number;
+  /** Time spent in the most recent cleanup, in milliseconds */
+  cleanupDuration?: number;
+  /** Time between render and the effect phase, in milliseconds */
+  commitDelay?: number;
+}
+
+export type LeakedResourceKind = 'listener' | 'timer' | 'observer' | 'subscription';
+
+/** A listener, timer, observer or subscription registered by an effect and not released by its cleanup */
+export interface LeakedResource {
+  kind: LeakedResourceKind;
+  /** e.g. `"resize" listener on Window` or `setInterval (1000ms)` */
+  description: string;
+  /** Stack of the registration, when the runtime provides one */
+  stack?: string;
+}
+
+export interface EffectLeakCounts {
+  listeners: number;
+  timers: number;
+  observers: number;
+  subscriptions: number;
+}
+
+export type EffectScheduleStatus = 'deferred' | 'executed' | 'cancelled';
+
+export interface EffectSchedule {
+  mode: 'debounce' | 'throttle';
+  wait: number;
+  status: EffectScheduleStatus;
+}
+
+export type AsyncEffectStatus = 'pending' | 'resolved' | 'rejected' | 'aborted';
+
+export type AsyncEffectCallback = (signal: AbortSignal) => Promise<void | (() => void)>;
+
+export interface UseSmartAsyncEffectOptions extends UseSmartEffectOptions {
+  /** Called when a non-aborted run rejects (defaults to an `effect-rejected` error log event) */
+  onError?: (error: unknown) => void;
+}
+
+export interface EffectGraphDependency {
+  name: string;
+  value: string;
+  /** Whether the dependency changed in the latest report */
+  changed: boolean;
+}
+
+export interface EffectGraphEffect {
+  id: string;
+  triggerCount: number;
+  renderCount: number;
+  /** Dependencies that changed the last time the effect was triggered */
+  lastChanged: string[];
+  dependencies: EffectGraphDependency[];
+}
+
+export interface EffectGraphComponent {
+  name: string;
+  effects: EffectGraphEffect[];
+}
+
+/** Component → effect → dependency model behind the graph serializers */
+export interface EffectGraph {
+  components: EffectGraphComponent[];
+}
+
+export interface EffectReportSink {
+  /** Receives reports, one batch at a time */
+  write(reports: EffectReport[]): void;
+  /** Called when the sink is unregistered */
+  close?(): void;
+}
+
+export interface ReportSinkOptions {
+  /** Effect id glob (`fetch-*`), regular expression or predicate */
+  filter?: string | RegExp | ((report: EffectReport) => boolean);
+  /** Deliver once this many reports are queued */
+  batchSize?: number;
+  /** Deliver queued reports at most once per this many milliseconds */
+  flushInterval?: number;
+  /** Keep only the latest queued report per effect */
+  latestOnly?: boolean;
+  /** Drop the oldest queued reports beyond this size */
+  maxQueueSize?: number;
+}
+
+export type DevToolsCapability = 'reports' | 'graph' | 'subscribe' | 'filter' | 'toggle';
+
+export type DevToolsErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'UNSUPPORTED_PROTOCOL'
+  | 'HANDSHAKE_REQUIRED'
+  | 'UNSUPPORTED_CAPABILITY';
+
+/** Requests sent by the DevTools panel to the app */
+export type DevToolsRequest =
+  | { type: 'HANDSHAKE'; payload: { protocols: number[]; capabilities?: DevToolsCapability[] } }
+  | { type: 'GET_REPORTS' }
+  | { type: 'CLEAR_REPORTS' }
+  | { type: 'GENERATE_GRAPH' }
+  | { type: 'SUBSCRIBE'; payload?: { flushInterval?: number } }
+  | { type: 'UNSUBSCRIBE' }
+  | { type: 'SET_FILTER'; payload: { filter: string | null } }
+  | { type: 'SET_ENABLED'; payload: { enabled: boolean } };
+
+export type DevToolsRequestMessage = DevToolsRequest & {
+  source: 'react-smart-effect-devtools';
+  protocol: number;
+  /** Correlation id echoed back as replyTo */
+  id: string;
+};
+
+/** Responses and pushed updates sent by the app to the DevTools panel */
+export type DevToolsResponse =
+  | { type: 'HANDSHAKE_ACK'; payload: { protocol: number; capabilities: DevToolsCapability[]; version: string } }
+  | { type: 'REPORTS_RESPONSE'; payload: EffectReport[] }
+  | { type: 'GRAPH_RESPONSE'; payload: EffectGraph }
+  | { type: 'ACK' }
+  | { type: 'ERROR'; payload: { code: DevToolsErrorCode; message: string } }
+  | { type: 'EFFECT_REPORTS'; payload: EffectReport[] };
+
+export type DevToolsResponseMessage = DevToolsResponse & {
+  source: 'react-smart-effect-app';
+  protocol: number;
+  /** Id of the request this message answers; pushed reports carry the SUBSCRIBE request id */
+  replyTo?: string;
+};
+
+export interface RedactionContext {
+  effectId: string;
+  index: number;
+  name?: string;
+}
+
+export interface DevToolsPanelOptions {
+  /** Origins allowed to talk to the panel (default: the page's own origin) */
+  allowedOrigins?: string[];
+  /** Capabilities offered during the handshake (default: all) */
+  capabilities?: DevToolsCapability[];
+  /** Dependency names whose values are never sent to the panel */
+  redactNames?: Array<string | RegExp>;
+  /** Transforms dependency values before they are sent to the panel */
+  redact?: (value: unknown, context: RedactionContext) => unknown;
 }
 
 export interface DevToolsState {
+  /** Latest report per effect */
   effects: Map<string, EffectReport>;
+  /** Bounded report history per effect, oldest first */
+  history: Map<string, EffectReport[]>;
+  /** Bounded chronological log across all effects */
+  log: EffectReport[];
   isEnabled: boolean;
+}
+
+export interface EffectReportStoreOptions {
+  /** Record reports (default: true in development) */
+  enabled?: boolean;
+  /** Also hand reports to the registered sinks and the browser DevTools bridge (default: false) */
+  publish?: boolean;
+}
+
+/**
+ * Reports, history and log of a set of effects, with its own enable flag
+ */
+export interface EffectReportStore {
+  /** Whether effects should report here; checked by the reporting hooks */
+  isEnabled(): boolean;
+  enable(enabled?: boolean): void;
+  /** Record a report and, for published stores, forward it to sinks and DevTools */
+  report(report: EffectReport): void;
+  /**
+   * Update the latest report of an effect with information gathered after render,
+   * or the given earlier report of that effect (as replaced by later updates).
+   * Updates are not forwarded to sinks or DevTools.
+   */
+  update(id: string, update: Partial<EffectReport>, report?: EffectReport): void;
+  /** Store a report without forwarding it, replacing `replaces` in place */
+  store(report: EffectReport, replaces?: EffectReport): void;
+  getReports(): EffectReport[];
+  getReport(id: string): EffectReport | undefined;
+  getHistory(id: string): EffectReport[];
+  getLog(): EffectReport[];
+  clear(): void;
+}
+
+export interface SmartEffectProviderProps {
+  /**
+   * Defaults for every smart effect in the subtree; options passed to a hook take precedence.
+   * Not applied to calls lowered by the build plugins' production mode.
+   */
+  defaultOptions?: UseSmartEffectOptions;
+  /** Store for the subtree's reports (default: the enclosing provider's, or a new one) */
+  store?: EffectReportStore;
+  /** Enable or disable reporting for the subtree, overriding the store's flag */
+  enabled?: boolean;
+  children?: ReactNode;
+}
+
+export interface EffectSession {
+  /** Session format version */
+  version: number;
+  exportedAt: number;
+  /** Reports in chronological order */
+  reports: EffectReport[];
 }
\ No newline at end of file
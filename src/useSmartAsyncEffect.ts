@@ -0,0 +1,80 @@
+import { useRef } from 'react';
+import { useEffectIdentity, useSmartEffectWithIdentity } from './useSmartEffect';
+import {
+  AsyncEffectCallback,
+  AsyncEffectStatus,
+  EffectReport,
+  SmartDependencies,
+  UseSmartAsyncEffectOptions
+} from './types';
+import { isReportingEnabled, useSmartEffectSettings } from './provider';
+import { getLogger } from './logger';
+
+/**
+ * Async variant of useSmartEffect. Each run receives an AbortSignal that is
+ * aborted when dependencies change or the component unmounts, and results of
+ * stale runs are discarded.
+ */
+export function useSmartAsyncEffect(
+  effect: AsyncEffectCallback,
+  deps?: SmartDependencies,
+  options: UseSmartAsyncEffectOptions = {}
+): void {
+  const { onError, ...smartOptions } = options;
+  const identity = useEffectIdentity(options);
+  const effectId = identity.id;
+  const settings = useSmartEffectSettings();
+  // Latest outcome, repeated on later reports so sinks and DevTools see it
+  const asyncRef = useRef<EffectReport['async']>(undefined);
+
+  useSmartEffectWithIdentity(() => {
+    const controller = new AbortController();
+    let settled = false;
+    let cleanup: void | (() => void);
+    // Statuses of this run belong on the report of the render that triggered it
+    const runReport = settings.store.getReport(effectId);
+
+    const record = (status: AsyncEffectStatus, error?: unknown) => {
+      if (!isReportingEnabled(settings)) return;
+      asyncRef.current = error === undefined ? { status } : { status, error };
+      settings.store.update(effectId, { async: asyncRef.current }, runReport);
+    };
+
+    record('pending');
+
+    effect(controller.signal).then(
+      result => {
+        settled = true;
+        if (controller.signal.aborted) {
+          // Stale run: release whatever it set up straight away
+          if (typeof result === 'function') result();
+          return;
+        }
+        cleanup = result;
+        record('resolved');
+      },
+      error => {
+        settled = true;
+        if (controller.signal.aborted) return;
+
+        record('rejected', error);
+        if (onError) {
+          onError(error);
+        } else {
+          getLogger(options.logger ?? settings.defaultOptions?.logger).log('error', {
+            type: 'effect-rejected',
+            effectId,
+            message: `[useSmartAsyncEffect:${effectId}] Effect rejected`,
+            error
+          });
+        }
+      }
+    );
+
+    return () => {
+      if (!settled) record('aborted');
+      controller.abort();
+      if (typeof cleanup === 'function') cleanup();
+    };
+  }, deps, smartOptions, identity, { async: asyncRef.current });
+}
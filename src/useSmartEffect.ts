@@ -1,39 +1,144 @@
-import { useEffect, useLayoutEffect, useRef, DependencyList, EffectCallback } from 'react';
+import { useEffect, useId, useLayoutEffect, useRef, DependencyList, EffectCallback } from 'react';
 import { 
-  deepCompareDeps, 
+  getChangedDeps,
   analyzeDeps, 
   generateDependencyWarning, 
   logDependencyChanges,
   createEffectId,
-  formatDependencyValue
+  formatDependencies,
+  getHighResTime,
+  normalizeDeps
 } from './utils';
-import { UseSmartEffectOptions, EffectReport } from './types';
-import { reportToDevTools } from './devtools';
+import {
+  UseSmartEffectOptions,
+  EffectReport,
+  EffectScheduleStatus,
+  EffectSkipReason,
+  EffectTiming,
+  EffectLeakCounts,
+  LeakedResource,
+  SmartDependencies
+} from './types';
+import { isReportingEnabled, useSmartEffectSettings } from './provider';
+import { getLogger } from './logger';
+import { diffDependencies } from './diff';
+import { createEffectScheduler, resolveSchedule, EffectScheduler } from './scheduling';
+import { createLoopDetector, resolveLoopDetection, LoopDetector } from './loopDetection';
+import { countLeaks, createLeakTracker, formatLeakWarning } from './leakDetection';
+
+const SKIP_REASON_MESSAGES: Record<EffectSkipReason, string> = {
+  'first-render': 'First render (skipFirstRender=true)',
+  'deps-unchanged': 'Dependencies unchanged',
+  'disabled': 'Effect disabled (enabled=false)',
+  'max-runs': 'Maximum number of runs reached',
+  'circuit-breaker': 'Circuit breaker open (runaway effect detected)'
+};
+
+// Fallback instance numbers for React versions without useId
+let instanceCounter = 0;
+
+export interface EffectIdentity {
+  id: string;
+  baseId?: string;
+}
+
+/**
+ * Resolve the effect id, appending an instance discriminator when perInstance is set.
+ * useId keeps the discriminator stable across reloads for the same tree position.
+ */
+export function useEffectIdentity(options: Pick<UseSmartEffectOptions, 'id' | 'perInstance'>): EffectIdentity {
+  const reactId = typeof useId === 'function' ? useId() : undefined;
+  const identityRef = useRef<EffectIdentity | null>(null);
+
+  if (!identityRef.current) {
+    const { id, perInstance } = options;
+    if (id && perInstance) {
+      const instance = reactId ? reactId.replace(/[^\w]/g, '') : String(++instanceCounter);
+      identityRef.current = { id: `${id}@${instance}`, baseId: id };
+    } else {
+      identityRef.current = { id: id || createEffectId() };
+    }
+  }
+
+  return identityRef.current;
+}
 
 /**
  * Enhanced useEffect hook with smart dependency tracking and debugging features
  */
 export function useSmartEffect(
   effect: EffectCallback,
-  deps?: DependencyList,
+  dependencies?: SmartDependencies,
   options: UseSmartEffectOptions = {}
 ): void {
+  useSmartEffectWithIdentity(effect, dependencies, options, useEffectIdentity(options));
+}
+
+/**
+ * useSmartEffect with an already resolved identity, shared with useSmartAsyncEffect.
+ * `carried` holds outcomes of earlier runs that each render's report repeats, like timing.
+ */
+export function useSmartEffectWithIdentity(
+  effect: EffectCallback,
+  dependencies: SmartDependencies | undefined,
+  callOptions: UseSmartEffectOptions,
+  identity: EffectIdentity,
+  carried: Pick<EffectReport, 'async'> = {}
+): void {
+  // Defaults from the nearest SmartEffectProvider; the call's own options win
+  const settings = useSmartEffectSettings();
+  const options = settings.defaultOptions ? { ...settings.defaultOptions, ...callOptions } : callOptions;
   const {
     skipFirstRender = false,
     debug = false,
     mode = 'effect',
     deepCompare = false,
     compareFunction,
-    id
+    comparators,
+    loopDetection,
+    component,
+    enabled = true,
+    whenEnabled = 'immediate',
+    runOnce = false
   } = options;
+  const maxRuns = runOnce ? 1 : options.maxRuns;
+  const logger = getLogger(options.logger);
 
-  const effectId = useRef<string>(id || createEffectId()).current;
+  const { id: effectId, baseId } = identity;
   const isFirstRender = useRef(true);
   const prevDepsRef = useRef<DependencyList | undefined>(undefined);
+  const namesRef = useRef<string[] | undefined>(undefined);
+  const runTokenRef = useRef(0);
+  const renderCountRef = useRef(0);
+  const triggerCountRef = useRef(0);
+  // Executions of the effect body, which maxRuns limits (a debounced burst executes once)
+  const runCountRef = useRef(0);
+  // Run token of the last counted execution; setting up the same run again (StrictMode) is not counted
+  const countedTokenRef = useRef<number | null>(null);
+  const timingRef = useRef<EffectTiming | undefined>(undefined);
+  const leaksRef = useRef<EffectLeakCounts | undefined>(undefined);
+  const schedulerRef = useRef<EffectScheduler | null>(null);
+  const scheduleStatusRef = useRef<EffectScheduleStatus | undefined>(undefined);
+  const loopDetectorRef = useRef<LoopDetector | null>(null);
+  // A run was skipped because the effect was disabled
+  const missedRunRef = useRef(false);
+
+  const schedule = resolveSchedule(options);
+  if (schedule && !schedulerRef.current) {
+    schedulerRef.current = createEffectScheduler();
+  }
 
   const effectHook = mode === 'layoutEffect' ? useLayoutEffect : useEffect;
+  const renderTime = getHighResTime();
+  renderCountRef.current += 1;
+
+  const { values: deps, names } = normalizeDeps(dependencies, namesRef.current);
+  namesRef.current = names;
 
-  const shouldRun = (() => {
+  const comparison = { deepCompare, comparators, names };
+  const changed = deps ? getChangedDeps(prevDepsRef.current, deps, comparison) : [];
+
+  const triggered = (() => {
     if (isFirstRender.current) {
       return !skipFirstRender;
     }
@@ -43,52 +148,160 @@ export function useSmartEffect(
     const prevDeps = prevDepsRef.current;
 
     if (compareFunction) return !compareFunction(prevDeps || [], deps);
-    if (deepCompare) return !deepCompareDeps(prevDeps, deps);
 
     if (!prevDeps || prevDeps.length !== deps.length) return true;
 
-    return !deps.every((dep, index) => Object.is(dep, prevDeps[index]));
+    return changed.some(Boolean);
   })();
 
+  // Create DevTools report
+  const report: EffectReport = {
+    id: effectId,
+    ...(baseId && { baseId }),
+    ...(component && { component }),
+    triggered,
+    dependencies: {
+      previous: prevDepsRef.current || [],
+      current: deps || [],
+      changed,
+      ...(names && { names })
+    },
+    timestamp: Date.now(),
+    renderCount: renderCountRef.current
+  };
+  if ((debug || isReportingEnabled(settings)) && deps && prevDepsRef.current && changed.some(Boolean)) {
+    const diffs = diffDependencies(prevDepsRef.current, deps, changed, names);
+    if (diffs.some(Boolean)) report.dependencies.diffs = diffs;
+  }
+  if (!triggered) {
+    report.skipReason = isFirstRender.current ? 'first-render' : 'deps-unchanged';
+  }
+
+  // Conditional execution: runs missed while disabled are caught up on enable unless whenEnabled is 'next-change'
+  const isEnabled = typeof enabled === 'function' ? enabled(deps || [], prevDepsRef.current) : enabled;
+  if (!isEnabled) {
+    if (triggered) {
+      missedRunRef.current = true;
+      report.triggered = false;
+      report.skipReason = 'disabled';
+    }
+  } else if (missedRunRef.current) {
+    missedRunRef.current = false;
+    if (!triggered && whenEnabled === 'immediate') {
+      report.triggered = true;
+      delete report.skipReason;
+    }
+  }
+
+  // Bounded execution
+  if (report.triggered && maxRuns !== undefined && runCountRef.current >= maxRuns) {
+    report.triggered = false;
+    report.skipReason = 'max-runs';
+  }
+
+  // Runaway effect detection
+  const loopConfig = resolveLoopDetection(loopDetection);
+  if (loopConfig) {
+    if (!loopDetectorRef.current) loopDetectorRef.current = createLoopDetector();
+    if (loopDetectorRef.current.record(report, loopConfig, logger)) {
+      report.triggered = false;
+      report.skipReason = 'circuit-breaker';
+    }
+  }
+
+  const shouldRun = report.triggered;
+  if (shouldRun) triggerCountRef.current += 1;
+  report.triggerCount = triggerCountRef.current;
+  if (timingRef.current) report.timing = timingRef.current;
+  if (leaksRef.current) report.leaks = leaksRef.current;
+  if (carried.async) report.async = carried.async;
+
   // Debug and dependency analysis
   if (debug && deps) {
-    const analysis = analyzeDeps(deps);
+    const analysis = analyzeDeps(deps, names);
     const warning = generateDependencyWarning(analysis, effectId);
-    if (warning) console.warn(warning);
+    if (warning) logger.log('warn', { type: 'analysis-warning', effectId, message: warning, analysis });
 
     if (!isFirstRender.current) {
-      logDependencyChanges(prevDepsRef.current, deps, effectId);
+      logDependencyChanges(prevDepsRef.current, deps, effectId, comparison, logger);
     }
 
     if (shouldRun) {
-      console.log(`[useSmartEffect:${effectId}] Effect will execute`, {
-        dependencies: deps.map(formatDependencyValue),
-        isFirstRender: isFirstRender.current
+      logger.log('debug', {
+        type: 'effect-will-run',
+        effectId,
+        dependencies: formatDependencies(deps, names),
+        isFirstRender: isFirstRender.current,
+        ...(schedule && { schedule: { mode: schedule.mode, wait: schedule.wait } })
       });
     } else {
-      console.log(`[useSmartEffect:${effectId}] Effect skipped`, {
-        reason: isFirstRender.current ? 'First render (skipFirstRender=true)' : 'Dependencies unchanged'
-      });
+      const reason = report.skipReason ?? 'deps-unchanged';
+      logger.log('debug', { type: 'effect-skipped', effectId, reason, message: SKIP_REASON_MESSAGES[reason] });
     }
   }
 
-  // Create DevTools report
-  const report: EffectReport = {
-    id: effectId,
-    triggered: shouldRun,
-    dependencies: {
-      previous: prevDepsRef.current || [],
-      current: deps || [],
-      changed: deps ? deps.map((dep, index) => !Object.is(dep, prevDepsRef.current?.[index])) : []
-    },
-    timestamp: Date.now(),
-    renderCount: 0
-  };
-  reportToDevTools(report);
+  if (schedule) {
+    if (shouldRun) scheduleStatusRef.current = 'deferred';
+    if (scheduleStatusRef.current) {
+      report.schedule = { mode: schedule.mode, wait: schedule.wait, status: scheduleStatusRef.current };
+    }
+  }
+  if (isReportingEnabled(settings)) settings.store.report(report);
 
   // Update previous deps
   prevDepsRef.current = deps ? [...deps] : undefined;
 
+  // Only hand React a new dependency when our own comparison says so, so that
+  // a skipped render never tears down the previous run's cleanup
+  if (shouldRun && !isFirstRender.current) runTokenRef.current += 1;
+  const runToken = runTokenRef.current;
+
+  const updateReport = (update: Partial<EffectReport>) => {
+    if (isReportingEnabled(settings)) settings.store.update(effectId, update);
+  };
+
+  const recordTiming = (timing: EffectTiming) => {
+    timingRef.current = { ...timingRef.current, ...timing };
+    updateReport({ timing: timingRef.current });
+  };
+
+  const recordLeaks = (leaks: LeakedResource[]) => {
+    if (leaks.length === 0) return;
+    leaksRef.current = countLeaks(leaks, leaksRef.current);
+    logger.log('warn', { type: 'leak-detected', effectId, message: formatLeakWarning(effectId, leaks), leaks });
+    updateReport({ leaks: leaksRef.current });
+  };
+
+  // Measures the effect body and wraps its cleanup so both durations are reported.
+  // In debug mode, resources registered by the body and still held after cleanup are reported as leaks.
+  const measuredEffect: EffectCallback = () => {
+    if (countedTokenRef.current !== runToken) {
+      // A trailing run deferred before the limit was reached
+      if (maxRuns !== undefined && runCountRef.current >= maxRuns) return;
+      runCountRef.current += 1;
+      countedTokenRef.current = runToken;
+    }
+
+    const tracker = debug ? createLeakTracker(deps, names) : null;
+    const start = getHighResTime();
+    const cleanup = tracker ? tracker.track(effect) : effect();
+    recordTiming({ effectDuration: getHighResTime() - start });
+
+    if (typeof cleanup !== 'function' && !tracker) return cleanup;
+    return () => {
+      if (typeof cleanup === 'function') {
+        const cleanupStart = getHighResTime();
+        if (tracker) {
+          tracker.track(cleanup);
+        } else {
+          cleanup();
+        }
+        recordTiming({ cleanupDuration: getHighResTime() - cleanupStart });
+      }
+      if (tracker) recordLeaks(tracker.collect());
+    };
+  };
+
   // Run the effect
   effectHook(() => {
     // Reset first render flag
@@ -96,8 +309,33 @@ export function useSmartEffect(
 
     if (!shouldRun) return;
 
-    return effect();
-  }, deps);
+    timingRef.current = { ...timingRef.current, commitDelay: getHighResTime() - renderTime };
+
+    if (schedule && schedulerRef.current) {
+      schedulerRef.current.trigger(measuredEffect, schedule, (status: EffectScheduleStatus) => {
+        scheduleStatusRef.current = status;
+        if (debug) {
+          logger.log('debug', {
+            type: 'effect-scheduled',
+            effectId,
+            status,
+            mode: schedule.mode,
+            wait: schedule.wait
+          });
+        }
+
+        updateReport({
+          schedule: { mode: schedule.mode, wait: schedule.wait, status }
+        });
+      });
+      return;
+    }
+
+    return measuredEffect();
+  }, deps ? [runToken] : undefined);
+
+  // Pending timers and the last deferred run are released on unmount only
+  effectHook(() => () => schedulerRef.current?.dispose(), []);
 }
 
 /**
@@ -105,7 +343,7 @@ export function useSmartEffect(
  */
 export function useSmartLayoutEffect(
   effect: EffectCallback,
-  deps?: DependencyList,
+  deps?: SmartDependencies,
   options: Omit<UseSmartEffectOptions, 'mode'> = {}
 ) {
   return useSmartEffect(effect, deps, { ...options, mode: 'layoutEffect' });
@@ -116,7 +354,7 @@ export function useSmartLayoutEffect(
  */
 export function useDeepEffect(
   effect: EffectCallback,
-  deps?: DependencyList,
+  deps?: SmartDependencies,
   options: Omit<UseSmartEffectOptions, 'deepCompare'> = {}
 ) {
   return useSmartEffect(effect, deps, { ...options, deepCompare: true });
@@ -127,7 +365,7 @@ export function useDeepEffect(
  */
 export function useDebugEffect(
   effect: EffectCallback,
-  deps?: DependencyList,
+  deps?: SmartDependencies,
   options: Omit<UseSmartEffectOptions, 'debug'> = {}
 ) {
   return useSmartEffect(effect, deps, { ...options, debug: true });
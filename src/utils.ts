@@ -1,6 +1,55 @@
 import isEqual from 'lodash.isequal';
 import { DependencyList } from 'react';
-import { DependencyAnalysis } from './types';
+import {
+  DependencyAnalysis,
+  DependencyComparator,
+  DependencyComparisonOptions,
+  EffectLogger,
+  LoggedDependencyChange,
+  NamedDependencies,
+  SmartDependencies
+} from './types';
+import { diffValues, formatDependencyDiff } from './diff';
+import { getLogger } from './logger';
+
+// Nesting depth beyond which values are summarized when serialized
+const MAX_SERIALIZE_DEPTH = 16;
+
+/**
+ * Checks whether dependencies were passed in object form
+ */
+export function isNamedDeps(deps: SmartDependencies): deps is NamedDependencies {
+  return !Array.isArray(deps);
+}
+
+/**
+ * Converts object-form dependencies into a dependency list plus names.
+ * The key order of the previous render is kept while the key set is unchanged,
+ * so reordering the object literal never shifts values between slots.
+ */
+export function normalizeDeps(
+  deps: SmartDependencies | undefined,
+  previousNames?: string[]
+): { values: DependencyList | undefined; names?: string[] } {
+  if (!deps || !isNamedDeps(deps)) return { values: deps };
+
+  const keys = Object.keys(deps);
+  const names =
+    previousNames &&
+    previousNames.length === keys.length &&
+    previousNames.every(name => Object.prototype.hasOwnProperty.call(deps, name))
+      ? previousNames
+      : keys;
+
+  return { values: names.map(name => deps[name]), names };
+}
+
+/**
+ * Describes a dependency by name when available, otherwise by index
+ */
+export function describeDependency(index: number, names?: string[]): string {
+  return names?.[index] !== undefined ? `'${names[index]}'` : `at index ${index}`;
+}
 
 /**
  * Deep comparison function for dependency arrays
@@ -21,10 +70,92 @@ export function deepCompareDeps(
   });
 }
 
+/**
+ * Reads a value at a dot/bracket property path such as `filters.range[0]`
+ */
+export function getValueAtPath(value: any, path: string): any {
+  const segments = path.split(/[.[\]]/).filter(Boolean);
+  return segments.reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
+
+/**
+ * Compares two values one level deep
+ */
+export function shallowEqual(prev: any, next: any): boolean {
+  if (Object.is(prev, next)) return true;
+  if (typeof prev !== 'object' || typeof next !== 'object' || prev === null || next === null) {
+    return false;
+  }
+  if (Array.isArray(prev) !== Array.isArray(next)) return false;
+
+  const prevKeys = Object.keys(prev);
+  const nextKeys = Object.keys(next);
+  if (prevKeys.length !== nextKeys.length) return false;
+
+  return prevKeys.every(key =>
+    Object.prototype.hasOwnProperty.call(next, key) && Object.is(prev[key], next[key])
+  );
+}
+
+/**
+ * Compares a single dependency using the given strategy
+ */
+export function compareDependency(prev: any, next: any, comparator: DependencyComparator): boolean {
+  if (typeof comparator === 'function') return comparator(prev, next);
+
+  switch (comparator) {
+    case 'is':
+      return Object.is(prev, next);
+    case 'shallow':
+      return shallowEqual(prev, next);
+    case 'deep':
+      if (typeof prev === 'object' && prev !== null) {
+        return isEqual(prev, next);
+      }
+      return Object.is(prev, next);
+  }
+
+  if (comparator.startsWith('key:')) {
+    const path = comparator.slice('key:'.length);
+    return Object.is(getValueAtPath(prev, path), getValueAtPath(next, path));
+  }
+
+  throw new Error(`[useSmartEffect] Unknown dependency comparator "${comparator}"`);
+}
+
+/**
+ * Resolves the comparison strategy for the dependency at the given index
+ */
+export function resolveComparator(
+  index: number,
+  options: DependencyComparisonOptions = {}
+): DependencyComparator {
+  const name = options.names?.[index];
+  return (
+    options.comparators?.[index] ??
+    (name !== undefined ? options.comparators?.[name] : undefined) ??
+    (options.deepCompare ? 'deep' : 'is')
+  );
+}
+
+/**
+ * Flags which dependencies changed, honoring per-dependency comparison strategies
+ */
+export function getChangedDeps(
+  prevDeps: DependencyList | undefined,
+  nextDeps: DependencyList,
+  options: DependencyComparisonOptions = {}
+): boolean[] {
+  return nextDeps.map((next, index) => {
+    if (!prevDeps || index >= prevDeps.length) return true;
+    return !compareDependency(prevDeps[index], next, resolveComparator(index, options));
+  });
+}
+
 /**
  * Analyzes dependencies to categorize them and detect potential issues
  */
-export function analyzeDeps(deps: DependencyList): DependencyAnalysis {
+export function analyzeDeps(deps: DependencyList, names?: string[]): DependencyAnalysis {
   const analysis: DependencyAnalysis = {
     primitives: [],
     objects: [],
@@ -32,6 +163,7 @@ export function analyzeDeps(deps: DependencyList): DependencyAnalysis {
     potentiallyMissing: [],
     redundant: []
   };
+  if (names) analysis.names = names;
 
   deps.forEach((dep: any, index) => {
     const type = typeof dep;
@@ -62,7 +194,7 @@ case 'function':
     dep.name === 'anonymous';
   
   analysis.potentiallyMissing.push(
-    isAnonymous ? `Anonymous function at index ${index}` : `Named function at index ${index}`
+    `${isAnonymous ? 'Anonymous' : 'Named'} function ${describeDependency(index, names)}`
   );
   break;
 
@@ -72,10 +204,10 @@ case 'function':
           analysis.primitives.push(dep);
         } else if (Array.isArray(dep)) {
           analysis.objects.push(dep);
-          analysis.potentiallyMissing.push(`Array at index ${index}`);
+          analysis.potentiallyMissing.push(`Array ${describeDependency(index, names)}`);
         } else {
           analysis.objects.push(dep);
-          analysis.potentiallyMissing.push(`Object at index ${index}`);
+          analysis.potentiallyMissing.push(`Object ${describeDependency(index, names)}`);
         }
         break;
     }
@@ -120,29 +252,81 @@ export function generateDependencyWarning(
 }
 
 /**
- * Logs dependency changes for debugging
+ * Logs dependency changes for debugging as a deps-changed event
  */
 export function logDependencyChanges(
   prevDeps: DependencyList | undefined,
   nextDeps: DependencyList | undefined,
-  effectId?: string
+  effectId?: string,
+  comparison: DependencyComparisonOptions = { deepCompare: true },
+  logger?: EffectLogger
 ): void {
   if (!prevDeps || !nextDeps) return;
 
+  const changed = getChangedDeps(prevDeps, nextDeps, comparison);
   const changes = nextDeps
-    .map((next, index) => {
-      const prev = prevDeps[index];
-      const changed = !Object.is(prev, next) && !isEqual(prev, next);
-      return { index, prev, next, changed };
-    })
-    .filter(c => c.changed);
+    .map((next, index) => ({ index, prev: prevDeps[index], next, changed: changed[index] }))
+    .filter(c => c.changed)
+    .map(({ index, prev, next }): LoggedDependencyChange => {
+      const name = comparison.names?.[index] ?? `Index ${index}`;
+
+      if (typeof prev === 'object' && prev !== null && typeof next === 'object' && next !== null) {
+        return { name, prev, next, diff: formatDependencyDiff(diffValues(prev, next, comparison.names?.[index])) };
+      }
+      return { name, prev, next };
+    });
 
   if (changes.length > 0) {
-    const prefix = effectId ? `[useSmartEffect:${effectId}]` : '[useSmartEffect]';
-    console.group(`${prefix} Dependencies Changed`);
-    changes.forEach(({ index, prev, next }) => console.log(`Index ${index}:`, { prev, next }));
-    console.groupEnd();
+    getLogger(logger).log('debug', {
+      type: 'deps-changed',
+      ...(effectId && { effectId }),
+      changes
+    });
+  }
+}
+
+/**
+ * Converts a value into something JSON can represent: functions and symbols
+ * become labels, Maps and Sets become tagged objects and cycles are marked
+ */
+export function toSerializable(value: any, ancestors: object[] = []): any {
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'symbol') return value.toString();
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Date) return value.toISOString();
+  if (ancestors.includes(value)) return '[Circular]';
+  if (ancestors.length >= MAX_SERIALIZE_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  const path = [...ancestors, value];
+
+  if (value instanceof Map) {
+    return {
+      __type: 'Map',
+      entries: Array.from(value.entries()).map(([key, entry]) => [
+        toSerializable(key, path),
+        toSerializable(entry, path)
+      ])
+    };
   }
+  if (value instanceof Set) {
+    return { __type: 'Set', values: Array.from(value.values()).map(entry => toSerializable(entry, path)) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => toSerializable(entry, path));
+  }
+
+  return Object.keys(value).reduce<Record<string, any>>((result, key) => {
+    result[key] = toSerializable(value[key], path);
+    return result;
+  }, {});
+}
+
+/**
+ * High resolution timestamp for measuring durations, in milliseconds
+ */
+export function getHighResTime(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
 }
 
 /**
@@ -152,6 +336,22 @@ export function createEffectId(): string {
   return `effect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Formats a dependency list for display, keyed by name when available
+ */
+export function formatDependencies(
+  deps: DependencyList,
+  names?: string[]
+): string[] | Record<string, string> {
+  const formatted = deps.map(formatDependencyValue);
+  if (!names) return formatted;
+
+  return names.reduce<Record<string, string>>((result, name, index) => {
+    result[name] = formatted[index];
+    return result;
+  }, {});
+}
+
 /**
  * Formats dependency values for display
  */
@@ -0,0 +1,553 @@
+import { transformSync } from '@babel/core';
+import babelPluginSmartEffect from '../src/plugins/babel';
+import { applyEdits, createPatch } from '../src/plugins/patch';
+import { formatDiagnosticsJSON, formatDiagnosticsSARIF } from '../src/plugins/diagnostics';
+
+function analyze(code: string, opts: Record<string, unknown> = {}) {
+  return transformSync(code, {
+    filename: 'Component.tsx',
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ['jsx', 'typescript'] },
+    plugins: [[babelPluginSmartEffect, opts]]
+  });
+}
+
+describe('babel plugin dependency analysis', () => {
+  const strictUnnecessary = { rules: { 'unnecessary-dependency': 'error' } };
+
+  test('should report missing dependencies with their member path', () => {
+    expect(() => analyze(`
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetchUser(user.id);
+        }, []);
+      }
+    `)).toThrow("Missing dependency 'user.id'");
+  });
+
+  test('should report dependencies the effect never reads', () => {
+    expect(() => analyze(`
+      function Profile({ user, theme }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, [user, theme]);
+      }
+    `, strictUnnecessary)).toThrow("Unnecessary dependency 'theme': not referenced by the effect");
+  });
+
+  test('should report outer scope values as unnecessary', () => {
+    expect(() => analyze(`
+      const API_URL = '/api';
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetch(API_URL + user);
+        }, [user, API_URL]);
+      }
+    `, strictUnnecessary)).toThrow("Unnecessary dependency 'API_URL'");
+  });
+
+  test('should accept computed member dependencies for reads of their object', () => {
+    expect(() => analyze(`
+      function List({ items, rows, index }) {
+        useSmartEffect(() => {
+          select(items[0], rows[index].id);
+        }, [items[0], rows[index].id, index]);
+      }
+    `, strictUnnecessary)).not.toThrow();
+  });
+
+  test('should treat state setters and refs as stable', () => {
+    expect(() => analyze(`
+      function Counter({ step }) {
+        const [count, setCount] = useState(0);
+        const timer = useRef(null);
+        useSmartEffect(() => {
+          timer.current = setInterval(() => setCount(c => c + step), 1000);
+          return () => clearInterval(timer.current);
+        }, [step]);
+      }
+    `)).not.toThrow();
+  });
+
+  test('should accept a parent path as covering nested reads and method calls', () => {
+    expect(() => analyze(`
+      function Profile({ user, items }) {
+        useSmartEffect(() => {
+          console.log(user.name, user.id, items.map(String));
+        }, [user, items]);
+      }
+    `)).not.toThrow();
+  });
+
+  test('should read optional chains like plain member paths', () => {
+    expect(() => analyze(`
+      function Profile({ user, page }) {
+        useSmartEffect(() => {
+          load(user?.id, page);
+        }, [user?.id, page]);
+      }
+    `, strictUnnecessary)).not.toThrow();
+    expect(() => analyze(`
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          load(user?.profile?.id);
+        }, []);
+      }
+    `)).toThrow("Missing dependency 'user.profile.id'");
+  });
+
+  test('should analyze named dependency objects', () => {
+    expect(() => analyze(`
+      function Profile({ user, page }) {
+        useSmartEffect(() => {
+          load(user.id, page);
+        }, { userId: user.id });
+      }
+    `)).toThrow("Missing dependency 'page'");
+  });
+
+  test('should warn instead of throwing in warnOnly mode', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    analyze(`
+      function Profile({ user }) {
+        useDeepEffect(() => {
+          fetchUser(user);
+        }, []);
+      }
+    `, { warnOnly: true });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Missing dependency 'user'"));
+    warn.mockRestore();
+  });
+
+  test('should be able to disable exhaustive dependency checks', () => {
+    expect(() => analyze(`
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, []);
+      }
+    `, { exhaustiveDeps: false })).not.toThrow();
+  });
+});
+
+describe('babel plugin autoFix', () => {
+  const source = [
+    "import { useState } from 'react';",
+    '',
+    'function Profile({ user, page }) {',
+    '  const [count, setCount] = useState(0);',
+    '  useSmartEffect(() => {',
+    '    load(user.id, page);',
+    '  }, [{ page }, () => setCount(count + 1)]);',
+    '}',
+    ''
+  ].join('\n');
+
+  test('should memoize inline dependencies and insert missing ones', () => {
+    const result = analyze(source, { autoFix: true });
+    const code = result?.code || '';
+
+    expect(code).toContain("import { useState, useMemo, useCallback } from 'react';");
+    expect(code).toMatch(/const _dep = useMemo\(\(\) => \(\{\s*page\s*\}\), \[page\]\);/);
+    expect(code).toContain('const _dep2 = useCallback(() => setCount(count + 1), [count]);');
+    expect(code).toContain('}, [_dep, _dep2, user.id, page], {');
+  });
+
+  test('should not reuse local functions named like React hooks', () => {
+    const code = analyze(source.replace('function Profile', 'const useMemo = () => {};\nfunction Profile'), { autoFix: true })?.code || '';
+
+    expect(code).toContain("import { useState, useMemo as _useMemo, useCallback } from 'react';");
+    expect(code).toContain('const _dep = _useMemo(');
+  });
+
+  test('should add missing keys to named dependency objects', () => {
+    const result = analyze(`
+      function Profile({ user, page }) {
+        useSmartEffect(() => {
+          load(user.id, page);
+        }, { page });
+      }
+    `, { autoFix: true });
+
+    expect(result?.code).toMatch(/\{\s*page,\s*userId: user\.id\s*\}/);
+  });
+
+  test('should not overwrite existing keys when adding missing dependencies', () => {
+    const result = analyze(`
+      function Profile({ user, userId }) {
+        useSmartEffect(() => {
+          log(user?.id, userId);
+        }, { userId });
+      }
+    `, { autoFix: true });
+
+    expect(result?.code).toMatch(/\{\s*userId,\s*"user\.id": user\?\.id\s*\}/);
+  });
+
+  test('should keep optional chaining when inserting missing dependencies', () => {
+    const result = analyze(`
+      function Profile({ user, page }) {
+        useSmartEffect(() => {
+          load(user?.id, page);
+        }, [page]);
+      }
+    `, { autoFix: true });
+
+    expect(result?.code).toContain('}, [page, user?.id], {');
+  });
+
+  test('should map rewritten code back to the original lines', () => {
+    const result = transformSync(source, {
+      filename: 'Profile.tsx',
+      babelrc: false,
+      configFile: false,
+      sourceMaps: true,
+      parserOpts: { plugins: ['jsx', 'typescript'] },
+      plugins: [[babelPluginSmartEffect, { autoFix: true }]]
+    });
+
+    expect(result?.map?.sources).toEqual(['Profile.tsx']);
+    expect(result?.map?.mappings).toBeTruthy();
+  });
+
+  test('should emit a patch and leave the code untouched in dry-run mode', () => {
+    const onPatch = jest.fn();
+    const result = analyze(source, { autoFix: true, dryRun: true, onPatch });
+
+    expect(result?.code).toContain('}, [{');
+    expect(onPatch).toHaveBeenCalledTimes(1);
+
+    const [patch, filename] = onPatch.mock.calls[0];
+    expect(filename).toMatch(/Component\.tsx$/);
+    expect(patch).toBe([
+      '--- a/Component.tsx',
+      '+++ b/Component.tsx',
+      '@@ -1,8 +1,12 @@',
+      "-import { useState } from 'react';",
+      "+import { useState, useMemo, useCallback } from 'react';",
+      ' ',
+      ' function Profile({ user, page }) {',
+      '   const [count, setCount] = useState(0);',
+      '+  const _dep = useMemo(() => ({',
+      '+    page',
+      '+  }), [page]);',
+      '+  const _dep2 = useCallback(() => setCount(count + 1), [count]);',
+      '   useSmartEffect(() => {',
+      '     load(user.id, page);',
+      '-  }, [{ page }, () => setCount(count + 1)]);',
+      '+  }, [_dep, _dep2, user.id, page]);',
+      ' }',
+      ''
+    ].join('\n'));
+    expect((result?.metadata as any).smartEffectPatch).toBe(patch);
+  });
+});
+
+describe('patch helpers', () => {
+  test('should apply edits at the same offset in order', () => {
+    expect(applyEdits('abc', [
+      { start: 1, end: 1, text: 'x' },
+      { start: 1, end: 1, text: 'y' },
+      { start: 2, end: 3, text: 'Z' }
+    ])).toBe('axybZ');
+  });
+
+  test('should split distant changes into separate hunks', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const edit = (search: string, text: string) => {
+      const start = original.indexOf(search);
+      return { start, end: start + search.length, text };
+    };
+
+    const patch = createPatch('file.txt', original, [edit('line 2\n', 'line two\n'), edit('line 18', 'line eighteen')]);
+
+    expect(patch.match(/^@@/gm)).toHaveLength(2);
+    expect(patch).toContain('@@ -1,5 +1,5 @@');
+    expect(patch).toContain('@@ -15,6 +15,6 @@');
+    expect(createPatch('file.txt', original, [])).toBe('');
+  });
+
+  test('should keep unchanged lines of an edit as context and shift later hunks', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+    const patch = createPatch('file.txt', original, [
+      { start: 0, end: 0, text: 'import x;\n' },
+      { start: original.indexOf('line 15'), end: original.indexOf('line 15') + 7, text: 'line 15a\nline 15b' }
+    ]);
+
+    expect(patch).toBe([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -1,3 +1,4 @@',
+      '+import x;',
+      ' line 1',
+      ' line 2',
+      ' line 3',
+      '@@ -12,7 +13,8 @@',
+      ' line 12',
+      ' line 13',
+      ' line 14',
+      '-line 15',
+      '+line 15a',
+      '+line 15b',
+      ' line 16',
+      ' line 17',
+      ' line 18',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('babel plugin effect ids', () => {
+  test('should inject ids from the file, enclosing component and ordinal', () => {
+    const code = analyze(`
+      export function UserList({ users }) {
+        useSmartEffect(() => {}, []);
+        useSmartEffect(() => {
+          track(users);
+        }, [users], { debug: true });
+      }
+      const useFeed = () => {
+        useSmartEffect(() => {});
+      };
+      const Row = memo(({ row }) => {
+        useSmartEffect(() => {}, [], options);
+      });
+    `)?.code || '';
+
+    expect(code).toMatch(/\[\], \{\s*id: "Component\.tsx:UserList#1",\s*perInstance: true\s*\}/);
+    expect(code).toMatch(/\{\s*id: "Component\.tsx:UserList#2",\s*perInstance: true,\s*debug: true\s*\}/);
+    expect(code).toMatch(/\}, undefined, \{\s*id: "Component\.tsx:useFeed#3"/);
+    expect(code).toMatch(/\{\s*id: "Component\.tsx:Row#4",\s*perInstance: true,\s*\.\.\.options\s*\}/);
+  });
+
+  test('should keep explicit ids and can be disabled', () => {
+    const source = `
+      function Profile() {
+        useSmartEffect(() => {}, [], { id: 'profile' });
+      }
+    `;
+
+    expect(analyze(source)?.code).not.toContain('perInstance');
+    expect(analyze(source.replace(", { id: 'profile' }", ''), { injectIds: false })?.code).not.toContain('perInstance');
+  });
+});
+
+describe('babel plugin hook detection', () => {
+  const missingDep = (call: string) => `
+    function Profile({ user }) {
+      ${call}(() => {
+        fetchUser(user);
+      }, []);
+    }
+  `;
+
+  test('should follow aliased and namespace imports from the package', () => {
+    expect(() => analyze(`import { useSmartEffect as useFx } from 'react-smart-effect';${missingDep('useFx')}`))
+      .toThrow("Missing dependency 'user'");
+    expect(() => analyze(`import * as SE from 'react-smart-effect';${missingDep('SE.useDeepEffect')}`))
+      .toThrow("Missing dependency 'user'");
+  });
+
+  test('should ignore local functions and other modules that share a hook name', () => {
+    expect(() => analyze(`function useSmartEffect() {}${missingDep('useSmartEffect')}`)).not.toThrow();
+    expect(() => analyze(`import { useSmartEffect } from './other';${missingDep('useSmartEffect')}`)).not.toThrow();
+  });
+
+  test('should analyze configured custom hooks at their argument positions', () => {
+    const code = `
+      import { useTrackedEffect } from './hooks';
+      function Profile({ user }) {
+        useTrackedEffect('profile', () => {
+          fetchUser(user);
+        }, []);
+      }
+    `;
+    const customHooks = [{ name: 'useTrackedEffect', source: './hooks', effectIndex: 1, depsIndex: 2, optionsIndex: 3 }];
+
+    expect(() => analyze(code)).not.toThrow();
+    expect(() => analyze(code, { customHooks })).toThrow("Missing dependency 'user'");
+    expect(analyze(code.replace('[]', '[user]'), { customHooks })?.code)
+      .toMatch(/\[user\], \{\s*id: "Component\.tsx:Profile#1"/);
+  });
+});
+
+describe('babel plugin production lowering', () => {
+  const lower = (code: string) => {
+    const result = analyze(code, { production: true });
+    return { code: result?.code || '', report: (result?.metadata as any).smartEffectLowering };
+  };
+
+  test('should lower calls with static options to plain React hooks and drop the import', () => {
+    const { code, report } = lower(`
+      import { useSmartEffect, useSmartLayoutEffect } from 'react-smart-effect';
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, { user }, { debug: true, id: 'profile' });
+        useSmartLayoutEffect(() => {
+          measure(user);
+        }, [user]);
+      }
+    `);
+
+    expect(code).toContain('import { useEffect, useLayoutEffect } from "react";');
+    expect(code).not.toContain('react-smart-effect');
+    expect(code).toMatch(/useEffect\(\(\) => \{\s*fetchUser\(user\);\s*\}, \[user\]\);/);
+    expect(code).toMatch(/useLayoutEffect\(\(\) => \{\s*measure\(user\);\s*\}, \[user\]\);/);
+    expect(report).toEqual({ lowered: 2, skipped: [] });
+  });
+
+  test('should import React hooks under a new name when a local binding has the same name', () => {
+    const { code } = lower(`
+      import { useSmartEffect } from 'react-smart-effect';
+      function useEffect() {}
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, [user]);
+      }
+    `);
+
+    expect(code).toContain('import { useEffect as _useEffect } from "react";');
+    expect(code).toMatch(/_useEffect\(\(\) => \{\s*fetchUser\(user\);\s*\}, \[user\]\);/);
+  });
+
+  test('should use the minimal runtime for comparison options', () => {
+    const { code } = lower(`
+      import * as SE from 'react-smart-effect';
+      function Profile({ user }) {
+        SE.useDeepEffect(() => {
+          fetchUser(user);
+        }, [user], { skipFirstRender: true });
+      }
+    `);
+
+    expect(code).toContain('import { useLoweredEffect } from "react-smart-effect/lowered";');
+    expect(code).toMatch(/useLoweredEffect\([\s\S]*\[user\], \{\s*skipFirstRender: true,\s*deepCompare: true\s*\}\)/);
+    expect(code).not.toContain("import * as SE");
+  });
+
+  test('should report call sites that keep the full runtime', () => {
+    const { code, report } = lower(`
+      import { useSmartEffect, useSmartAsyncEffect } from 'react-smart-effect';
+      function Search({ query, options }) {
+        useSmartEffect(() => {
+          search(query);
+        }, [query], { debounce: 300 });
+        useSmartEffect(() => {
+          search(query);
+        }, [query], options);
+        useSmartAsyncEffect(async () => {
+          await search(query);
+        }, [query]);
+      }
+    `);
+
+    expect(code).toContain("import { useSmartEffect, useSmartAsyncEffect } from 'react-smart-effect';");
+    expect(report.lowered).toBe(0);
+    expect(report.skipped.map((site: any) => [site.line, site.hook, site.reason])).toEqual([
+      [4, 'useSmartEffect', 'debounce needs the full runtime'],
+      [7, 'useSmartEffect', 'options are not an object literal'],
+      [10, 'useSmartAsyncEffect', 'async effects need the full runtime']
+    ]);
+  });
+});
+
+describe('babel plugin diagnostics', () => {
+  const diagnose = (code: string, opts: Record<string, unknown> = {}) => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = analyze(code, { warnOnly: true, ...opts });
+    warn.mockRestore();
+    return (result?.metadata as any).smartEffectDiagnostics;
+  };
+
+  test('should collect structured findings with locations and suggestions', () => {
+    expect(diagnose(`
+      function Profile({ user, theme }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, [theme]);
+      }
+    `)).toEqual([
+      {
+        filename: 'Component.tsx',
+        line: 4,
+        column: 21,
+        rule: 'missing-dependency',
+        severity: 'error',
+        message: "Missing dependency 'user'",
+        suggestion: "Add 'user' to the dependencies"
+      },
+      expect.objectContaining({ line: 5, column: 13, rule: 'unnecessary-dependency', severity: 'warning' })
+    ]);
+  });
+
+  test('should apply per-rule severities', () => {
+    const code = `
+      function Profile({ user }) {
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, [{ user }]);
+      }
+    `;
+
+    expect(diagnose(code, { rules: { 'unstable-literal': 'off', 'missing-dependency': 'warning' } }))
+      .toEqual([expect.objectContaining({ rule: 'missing-dependency', severity: 'warning' })]);
+    expect(() => analyze(code, { rules: { 'missing-dependency': 'warning' } })).not.toThrow();
+  });
+
+  test('should honor suppression comments', () => {
+    expect(diagnose(`
+      function Profile({ user, theme }) {
+        // smart-effect-disable-next-line missing-dependency
+        useSmartEffect(() => {
+          fetchUser(user);
+        }, [theme]); // smart-effect-disable-line
+        useSmartEffect(() => {
+          // smart-effect-disable-next-line
+          fetchUser(user);
+        }, []);
+      }
+    `)).toEqual([]);
+  });
+});
+
+describe('diagnostic reports', () => {
+  const diagnostic = {
+    filename: 'src/Profile.tsx',
+    line: 4,
+    column: 21,
+    rule: 'missing-dependency' as const,
+    severity: 'error' as const,
+    message: "Missing dependency 'user'",
+    suggestion: "Add 'user' to the dependencies"
+  };
+
+  test('should serialize SARIF results with rule metadata', () => {
+    const sarif = JSON.parse(formatDiagnosticsSARIF([diagnostic]));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toContain('missing-dependency');
+    expect(run.results).toEqual([{
+      ruleId: 'missing-dependency',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: "Missing dependency 'user'. Add 'user' to the dependencies." },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/Profile.tsx' },
+          region: { startLine: 4, startColumn: 21 }
+        }
+      }]
+    }]);
+  });
+
+  test('should serialize versioned JSON', () => {
+    expect(JSON.parse(formatDiagnosticsJSON([diagnostic]))).toEqual({ version: 1, diagnostics: [diagnostic] });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rollup } from 'rollup';
+import { build } from 'esbuild';
+import { rollupPluginSmartEffect } from '../src/plugins/rollup';
+import smartEffectLoader, { SmartEffectWebpackPlugin } from '../src/plugins/webpack';
+import { esbuildPluginSmartEffect } from '../src/plugins/esbuild';
+
+const source = `
+  function Profile({ user }) {
+    useSmartEffect(() => {
+      fetchUser(user);
+    }, []);
+  }
+`;
+
+function readReport(file: string) {
+  return JSON.parse(readFileSync(file, 'utf8')).diagnostics.map((d: any) => [d.filename, d.rule]);
+}
+
+describe('bundler plugins', () => {
+  const id = join(process.cwd(), 'src/Profile.tsx');
+  let dir: string;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'smart-effect-'));
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test('should transform modules and report findings with Rollup', async () => {
+    const file = join(dir, 'effects.json');
+    const plugin: any = rollupPluginSmartEffect({ report: { file } });
+
+    plugin.buildStart();
+    const result = await plugin.transform(source, id);
+    expect(await plugin.transform(source, join(process.cwd(), 'node_modules/lib/index.js'))).toBeNull();
+    plugin.buildEnd();
+
+    expect(result.code).toContain('id: "src/Profile.tsx:Profile#1"');
+    expect(readReport(file)).toEqual([['src/Profile.tsx', 'missing-dependency']]);
+  });
+
+  test('should run as a plugin of a real Rollup build', async () => {
+    const input = join(dir, 'Profile.js');
+    writeFileSync(input, `export ${source.trim()}`);
+
+    const bundle = await rollup({ input, plugins: [rollupPluginSmartEffect({ warnOnly: true })] });
+    const { output } = await bundle.generate({ format: 'es' });
+    await bundle.close();
+
+    expect(output[0].code).toContain('perInstance: true');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Missing dependency 'user'"));
+  });
+
+  test('should register a filtered webpack loader that shares the plugin state', async () => {
+    const file = join(dir, 'effects.json');
+    const rules: any[] = [];
+    const hooks: Record<string, () => void> = {};
+    const tap = (name: string) => ({ tap: (_: string, callback: () => void) => { hooks[name] = callback; } });
+
+    new SmartEffectWebpackPlugin({ report: { file }, exclude: /Ignored/ }).apply({
+      options: { module: { rules } },
+      hooks: { run: tap('run'), done: tap('done') }
+    });
+
+    const [rule] = rules;
+    expect(rule.enforce).toBe('pre');
+    expect(rule.test(id)).toBe(true);
+    expect(rule.test(join(process.cwd(), 'src/Ignored.tsx'))).toBe(false);
+
+    hooks.run();
+    const output = await new Promise<string | undefined>((resolve, reject) => {
+      smartEffectLoader.call({
+        resourcePath: id,
+        getOptions: () => rule.use[0].options,
+        async: () => (error: Error | null, content?: string) => error ? reject(error) : resolve(content)
+      }, source);
+    });
+    hooks.done();
+
+    expect(output).toContain('perInstance: true');
+    expect(readReport(file)).toEqual([['src/Profile.tsx', 'missing-dependency']]);
+  });
+
+  test('should load modules through the esbuild plugin', async () => {
+    const path = join(dir, 'Profile.tsx');
+    writeFileSync(path, source);
+    writeFileSync(join(dir, 'constants.ts'), 'export const answer = 42;');
+    const callbacks: Record<string, (...args: any[]) => any> = {};
+
+    esbuildPluginSmartEffect({ production: true }).setup({
+      initialOptions: {},
+      onStart: (callback: () => void) => { callbacks.start = callback; },
+      onLoad: (_: unknown, callback: (args: { path: string }) => unknown) => { callbacks.load = callback; },
+      onEnd: (callback: () => void) => { callbacks.end = callback; }
+    } as any);
+
+    callbacks.start();
+    const result = await callbacks.load({ path });
+    expect(await callbacks.load({ path: join(dir, 'constants.ts') })).toBeUndefined();
+    callbacks.end();
+
+    expect(result.loader).toBe('tsx');
+    expect(result.contents).toContain('useEffect(() => {');
+    expect(result.contents).toContain('//# sourceMappingURL=data:application/json;base64,');
+  });
+
+  test('should run as a plugin of a real esbuild build', async () => {
+    const entry = join(dir, 'Profile.tsx');
+    writeFileSync(entry, `export ${source.trim()}`);
+
+    const result = await build({
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      logLevel: 'silent',
+      plugins: [esbuildPluginSmartEffect({ warnOnly: true })]
+    });
+
+    expect(result.outputFiles[0].text).toContain('perInstance: true');
+  });
+
+  test('should keep the loader configured for the file extension', async () => {
+    const entry = join(dir, 'Profile.js');
+    writeFileSync(entry, `export ${source.trim().replace('fetchUser(user);', 'render(<Avatar user={user} />);')}`);
+
+    const result = await build({
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      logLevel: 'silent',
+      loader: { '.js': 'jsx' },
+      jsx: 'preserve',
+      plugins: [esbuildPluginSmartEffect({ warnOnly: true })]
+    });
+
+    expect(result.outputFiles[0].text).toContain('<Avatar user={user} />');
+  });
+});
@@ -0,0 +1,102 @@
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { expandPatterns, runCli } from '../src/cli';
+
+const profile = `import { useSmartEffect } from 'react-smart-effect';
+
+export function Profile({ user }) {
+  useSmartEffect(() => {
+    fetchUser(user);
+  }, []);
+}
+`;
+
+const settings = `import { useSmartEffect } from 'react-smart-effect';
+
+const DELAY = 100;
+
+export function Settings({ theme }) {
+  useSmartEffect(() => {
+    applyTheme(theme);
+  }, [theme, DELAY]);
+}
+`;
+
+function run(argv: string[], cwd: string) {
+  const io = { out: [] as string[], err: [] as string[] };
+  const code = runCli(argv, {
+    cwd,
+    stdout: text => io.out.push(text),
+    stderr: text => io.err.push(text)
+  });
+  return { code, stdout: io.out.join('\n'), stderr: io.err.join('\n') };
+}
+
+describe('react-smart-effect analyze', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'smart-effect-cli-'));
+    mkdirSync(join(cwd, 'src/components'), { recursive: true });
+    mkdirSync(join(cwd, 'node_modules/lib'), { recursive: true });
+    writeFileSync(join(cwd, 'src/components/Profile.tsx'), profile);
+    writeFileSync(join(cwd, 'src/Settings.jsx'), settings);
+    writeFileSync(join(cwd, 'src/styles.css'), '');
+    writeFileSync(join(cwd, 'node_modules/lib/index.js'), profile);
+  });
+
+  test('should expand globs, directories and files', () => {
+    expect(expandPatterns(['src/**/*.{tsx,jsx}'], cwd)).toEqual([
+      join(cwd, 'src/Settings.jsx'),
+      join(cwd, 'src/components/Profile.tsx')
+    ]);
+    expect(expandPatterns(['src/*.tsx'], cwd)).toEqual([]);
+    expect(expandPatterns(['.'], cwd)).toHaveLength(2);
+  });
+
+  test('should print findings grouped by file and fail on errors', () => {
+    const result = run(['analyze', 'src/**/*'], cwd);
+
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain("src/components/Profile.tsx\n  5:15    error    Missing dependency 'user'  missing-dependency");
+    expect(result.stdout).toContain("Unnecessary dependency 'DELAY'");
+    expect(result.stdout).toContain('2 problems (1 error, 1 warning)');
+  });
+
+  test('should apply the severity threshold and config file', () => {
+    writeFileSync(
+      join(cwd, 'smart-effect.config.json'),
+      JSON.stringify({ rules: { 'missing-dependency': 'warning' } })
+    );
+
+    expect(run(['analyze', 'src'], cwd).code).toBe(0);
+    expect(run(['analyze', 'src', '--fail-on', 'warning'], cwd).code).toBe(1);
+  });
+
+  test('should print JSON reports', () => {
+    const result = run(['analyze', 'src/components/Profile.tsx', '--format', 'json'], cwd);
+
+    expect(JSON.parse(result.stdout).diagnostics).toEqual([
+      expect.objectContaining({ filename: 'src/components/Profile.tsx', rule: 'missing-dependency', line: 5 })
+    ]);
+  });
+
+  test('should fix files in place, preserving the rest of the source', () => {
+    const result = run(['analyze', 'src/components/Profile.tsx', '--fix'], cwd);
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('Fixed 1 file: src/components/Profile.tsx');
+    expect(readFileSync(join(cwd, 'src/components/Profile.tsx'), 'utf8'))
+      .toBe(profile.replace('}, []);', '}, [user]);'));
+  });
+
+  test('should reject unknown options and report parse errors', () => {
+    expect(run(['analyze', '--format', 'xml', 'src'], cwd).code).toBe(2);
+
+    writeFileSync(join(cwd, 'src/Broken.tsx'), 'useSmartEffect(() => {');
+    const result = run(['analyze', 'src/Broken.tsx'], cwd);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('src/Broken.tsx');
+  });
+});
@@ -0,0 +1,262 @@
+import { renderHook } from '@testing-library/react';
+import {
+  useSmartEffect,
+  enableDevTools,
+  clearEffectReports,
+  configureReportHistory,
+  getEffectHistory,
+  getEffectLog,
+  getReportsInRange,
+  exportSession,
+  importSession,
+  buildEffectGraph,
+  generateEffectGraphMermaid,
+  generateEffectGraphDot,
+  generateEffectGraphJSON,
+  reportToDevTools,
+  registerReportSink,
+  subscribeToEffectReports,
+  createMemorySink,
+  configureLogger,
+  EffectLogEvent,
+  EffectReport
+} from '../src';
+
+function makeReport(id: string, renderCount: number = 1): EffectReport {
+  return {
+    id,
+    triggered: true,
+    dependencies: { previous: [], current: [], changed: [] },
+    timestamp: Date.now(),
+    renderCount
+  };
+}
+
+describe('report history', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    configureReportHistory({ perEffect: 50, global: 1000 });
+    enableDevTools(false);
+  });
+
+  test('should keep a bounded history per effect', () => {
+    configureReportHistory({ perEffect: 3 });
+
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(() => {}, deps, { id: 'history' }),
+      { initialProps: { deps: [0] } }
+    );
+    for (let i = 1; i <= 4; i++) rerender({ deps: [i] });
+
+    const history = getEffectHistory('history');
+    expect(history.map(report => report.dependencies.current[0])).toEqual([2, 3, 4]);
+    expect(history.every(report => report.timing?.effectDuration !== undefined)).toBe(true);
+    expect(getEffectLog()).toHaveLength(5);
+  });
+
+  test('should filter the global log by time range', () => {
+    const now = Date.now();
+    importSession({
+      version: 1,
+      exportedAt: now,
+      reports: [100, 200, 300].map(offset => ({
+        id: `effect-${offset}`,
+        triggered: true,
+        dependencies: { previous: [], current: [], changed: [] },
+        timestamp: now + offset,
+        renderCount: 1
+      }))
+    });
+
+    expect(getReportsInRange(now + 150, now + 300).map(report => report.id)).toEqual([
+      'effect-200',
+      'effect-300'
+    ]);
+  });
+
+  test('should round-trip a session through JSON', () => {
+    const cyclic: any = { name: 'node' };
+    cyclic.self = cyclic;
+
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(() => {}, deps, { id: 'exported' }),
+      { initialProps: { deps: [cyclic, new Map([['a', 1]]), function onSave() {}] as any[] } }
+    );
+    rerender({ deps: [cyclic, new Map([['a', 2]]), function onSave() {}] });
+
+    const json = exportSession();
+    clearEffectReports();
+
+    expect(importSession(json)).toBe(2);
+
+    const [first] = getEffectHistory('exported');
+    expect(first.dependencies.current).toEqual([
+      { name: 'node', self: '[Circular]' },
+      { __type: 'Map', entries: [['a', 1]] },
+      '[Function onSave]'
+    ]);
+  });
+
+  test('should reject unsupported session versions', () => {
+    expect(() => importSession(JSON.stringify({ version: 99, reports: [] }))).toThrow(
+      'Unsupported session version 99'
+    );
+  });
+});
+
+describe('effect graph export', () => {
+  const reports: EffectReport[] = [
+    {
+      id: 'fetch-user',
+      component: 'UserList',
+      triggered: true,
+      dependencies: {
+        previous: [1, 'all'],
+        current: [2, 'all'],
+        changed: [true, false],
+        names: ['userId', 'filter']
+      },
+      timestamp: 0,
+      renderCount: 4,
+      triggerCount: 2
+    }
+  ];
+
+  test('should build a component → effect → dependency model', () => {
+    expect(buildEffectGraph(reports)).toEqual({
+      components: [
+        {
+          name: 'UserList',
+          effects: [
+            {
+              id: 'fetch-user',
+              triggerCount: 2,
+              renderCount: 4,
+              lastChanged: ['userId'],
+              dependencies: [
+                { name: 'userId', value: '2', changed: true },
+                { name: 'filter', value: 'all', changed: false }
+              ]
+            }
+          ]
+        }
+      ]
+    });
+  });
+
+  test('should serialize to Mermaid, DOT and JSON', () => {
+    const graph = buildEffectGraph(reports);
+
+    expect(generateEffectGraphMermaid(graph)).toBe([
+      'graph LR',
+      '  subgraph c0["UserList"]',
+      '    c0e0["fetch-user<br/>2 triggers / 4 renders"]',
+      '  end',
+      '  c0e0d0(["userId"])',
+      '  c0e0d0 ==>|changed| c0e0',
+      '  c0e0d1(["filter"])',
+      '  c0e0d1 --> c0e0'
+    ].join('\n'));
+
+    const dot = generateEffectGraphDot(graph);
+    expect(dot).toContain('"effect:fetch-user" [label="fetch-user\\n2 triggers / 4 renders", shape=box];');
+    expect(dot).toContain('"dep:fetch-user:userId" -> "effect:fetch-user" [color=red, label="changed"];');
+    expect(dot).toContain('"dep:fetch-user:filter" -> "effect:fetch-user";');
+
+    expect(JSON.parse(generateEffectGraphJSON(graph))).toEqual(graph);
+  });
+});
+
+describe('report sinks', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+    jest.useRealTimers();
+  });
+
+  test('should notify subscribers until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToEffectReports(listener);
+
+    reportToDevTools(makeReport('a'));
+    unsubscribe();
+    reportToDevTools(makeReport('b'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].id).toBe('a');
+  });
+
+  test('should deliver one report per render and keep updates local', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToEffectReports(listener);
+
+    const { rerender } = renderHook(
+      ({ count }) => useSmartEffect(() => {}, [count], { id: 'once-per-render' }),
+      { initialProps: { count: 0 } }
+    );
+    rerender({ count: 1 });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(getEffectHistory('once-per-render').every(report => report.timing?.effectDuration !== undefined)).toBe(true);
+  });
+
+  test('should deliver after render and log failing sinks without breaking the others', async () => {
+    const events: EffectLogEvent[] = [];
+    configureLogger({ log: (level, event) => events.push(event) });
+    const sink = createMemorySink();
+    const unregisterBroken = registerReportSink({ write: () => { throw new Error('offline'); } });
+    const unsubscribe = subscribeToEffectReports(() => {}, { filter: () => { throw new Error('bad filter'); } });
+    const unregister = registerReportSink(sink);
+
+    renderHook(() => useSmartEffect(() => {}, [], { id: 'guarded' }));
+    expect(sink.reports).toHaveLength(0);
+
+    await Promise.resolve();
+    unregisterBroken();
+    unsubscribe();
+    unregister();
+    configureLogger(null);
+
+    expect(sink.reports.map(report => report.id)).toEqual(['guarded']);
+    expect(events.filter(event => event.type === 'sink-failed').map(event => (event as { error: Error }).error.message))
+      .toEqual(['offline', 'bad filter']);
+  });
+
+  test('should filter sinks by effect id pattern', () => {
+    const sink = createMemorySink();
+    const unregister = registerReportSink(sink, { filter: 'fetch-*' });
+
+    reportToDevTools(makeReport('fetch-user'));
+    reportToDevTools(makeReport('resize'));
+    unregister();
+
+    expect(sink.reports.map(report => report.id)).toEqual(['fetch-user']);
+  });
+
+  test('should batch and throttle high-frequency reports', async () => {
+    jest.useFakeTimers();
+    const write = jest.fn();
+    const unregister = registerReportSink({ write }, { flushInterval: 100, latestOnly: true });
+
+    for (let i = 1; i <= 10; i++) reportToDevTools(makeReport('scroll', i));
+    reportToDevTools(makeReport('resize'));
+    await Promise.resolve();
+    expect(write).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls[0][0].map((report: EffectReport) => `${report.id}#${report.renderCount}`))
+      .toEqual(['scroll#10', 'resize#1']);
+
+    unregister();
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  initializeDevToolsPanel,
+  enableDevTools,
+  clearEffectReports,
+  reportToDevTools,
+  DEVTOOLS_PROTOCOL_VERSION,
+  DevToolsRequest,
+  EffectReport
+} from '../src';
+
+const ORIGIN = window.location.origin;
+
+function send(request: DevToolsRequest, id: string, origin: string = ORIGIN) {
+  window.dispatchEvent(new MessageEvent('message', {
+    data: { ...request, source: 'react-smart-effect-devtools', protocol: DEVTOOLS_PROTOCOL_VERSION, id },
+    origin,
+    source: window
+  }));
+}
+
+function makeReport(id: string): EffectReport {
+  return {
+    id,
+    triggered: true,
+    dependencies: {
+      previous: ['old-token', 1],
+      current: ['secret-token', 2],
+      changed: [true, true],
+      names: ['authToken', 'page']
+    },
+    timestamp: Date.now(),
+    renderCount: 1
+  };
+}
+
+describe('DevTools panel protocol', () => {
+  let postMessage: jest.SpyInstance;
+  let dispose: () => void;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    postMessage = jest.spyOn(window, 'postMessage').mockImplementation(() => {});
+    enableDevTools(true);
+    clearEffectReports();
+    dispose = initializeDevToolsPanel({ redactNames: ['authToken'], capabilities: ['reports', 'subscribe'] });
+  });
+
+  afterEach(() => {
+    dispose();
+    enableDevTools(false);
+    jest.restoreAllMocks();
+  });
+
+  const handshake = () =>
+    send({ type: 'HANDSHAKE', payload: { protocols: [DEVTOOLS_PROTOCOL_VERSION] } }, 'hs');
+
+  test('should ignore messages from origins that are not allowed', () => {
+    send({ type: 'HANDSHAKE', payload: { protocols: [DEVTOOLS_PROTOCOL_VERSION] } }, 'hs', 'https://evil.example');
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  test('should negotiate capabilities and correlate replies', () => {
+    handshake();
+
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'HANDSHAKE_ACK',
+        replyTo: 'hs',
+        payload: expect.objectContaining({ capabilities: ['reports', 'subscribe'] })
+      }),
+      ORIGIN
+    );
+
+    send({ type: 'GENERATE_GRAPH' }, 'graph');
+    expect(postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'ERROR', replyTo: 'graph', payload: expect.objectContaining({ code: 'UNSUPPORTED_CAPABILITY' }) }),
+      ORIGIN
+    );
+  });
+
+  test('should require a handshake before other requests', () => {
+    send({ type: 'GET_REPORTS' }, 'early');
+
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'ERROR', replyTo: 'early', payload: expect.objectContaining({ code: 'HANDSHAKE_REQUIRED' }) }),
+      ORIGIN
+    );
+  });
+
+  test('should redact sensitive dependencies in responses and pushed reports', async () => {
+    handshake();
+    reportToDevTools(makeReport('login'));
+
+    send({ type: 'GET_REPORTS' }, 'reports');
+    const [response] = postMessage.mock.calls[postMessage.mock.calls.length - 1];
+    expect(response.type).toBe('REPORTS_RESPONSE');
+    expect(response.payload[0].dependencies.current).toEqual(['[Redacted]', 2]);
+
+    send({ type: 'SUBSCRIBE' }, 'sub');
+    reportToDevTools(makeReport('refresh'));
+    await Promise.resolve();
+    const [pushed] = postMessage.mock.calls[postMessage.mock.calls.length - 1];
+    expect(pushed.type).toBe('EFFECT_REPORTS');
+    expect(pushed.replyTo).toBe('sub');
+    expect(pushed.payload[0].dependencies.previous).toEqual(['[Redacted]', 1]);
+  });
+});
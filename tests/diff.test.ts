@@ -0,0 +1,53 @@
+import { diffValues, formatDependencyDiff } from '../src';
+
+describe('diffValues', () => {
+  test('should report exact changed, added and removed paths', () => {
+    const prev = { filters: { range: { start: 3 } }, items: [1, 2, 3, 4], flag: true };
+    const next = { filters: { range: { start: 5 } }, items: [1, 2, 3, 4, 9] };
+
+    expect(formatDependencyDiff(diffValues(prev, next))).toEqual([
+      'filters.range.start: 3 → 5',
+      'items[4] added: 9',
+      'flag removed: true'
+    ]);
+  });
+
+  test('should handle Maps, Sets and Dates', () => {
+    const prev = {
+      cache: new Map([['a', 1]]),
+      tags: new Set(['x']),
+      at: new Date(0)
+    };
+    const next = {
+      cache: new Map([['a', 2], ['b', 3]]),
+      tags: new Set(['y']),
+      at: new Date(1000)
+    };
+
+    expect(formatDependencyDiff(diffValues(prev, next, 'state'))).toEqual([
+      'state.cache["a"]: 1 → 2',
+      'state.cache["b"] added: 3',
+      'state.tags{"x"} removed: "x"',
+      'state.tags{"y"} added: "y"',
+      'state.at: 1970-01-01T00:00:00.000Z → 1970-01-01T00:00:01.000Z'
+    ]);
+  });
+
+  test('should terminate on cycles and cap large diffs', () => {
+    const prev: any = { value: 1 };
+    prev.self = prev;
+    const next: any = { value: 2 };
+    next.self = next;
+
+    expect(diffValues(prev, next).changes.map(change => change.path)).toEqual(['value']);
+
+    const large = diffValues(
+      Array.from({ length: 100 }, (_, i) => i),
+      Array.from({ length: 100 }, (_, i) => i + 1),
+      'list',
+      { maxChanges: 5 }
+    );
+    expect(large.changes).toHaveLength(5);
+    expect(large.truncated).toBe(true);
+  });
+});
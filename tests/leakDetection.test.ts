@@ -0,0 +1,157 @@
+import { renderHook } from '@testing-library/react';
+import {
+  useSmartEffect,
+  enableDevTools,
+  clearEffectReports,
+  getEffectReport,
+  EffectLogEvent,
+  EffectLogger
+} from '../src';
+
+function createRecorder(): EffectLogger & { events: EffectLogEvent[] } {
+  const events: EffectLogEvent[] = [];
+  return { events, log: (level, event) => events.push(event) };
+}
+
+function leakEvents(logger: { events: EffectLogEvent[] }) {
+  return logger.events.filter(
+    (event): event is Extract<EffectLogEvent, { type: 'leak-detected' }> => event.type === 'leak-detected'
+  );
+}
+
+function createStore() {
+  const listeners = new Set<() => void>();
+  return {
+    listeners,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
+
+describe('leak detection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    enableDevTools(false);
+  });
+
+  test('should report listeners and timers left after unmount with their stacks', () => {
+    const logger = createRecorder();
+    const { unmount } = renderHook(() =>
+      useSmartEffect(() => {
+        window.addEventListener('resize', () => {});
+        setInterval(() => {}, 1000);
+      }, [], { id: 'leaky', debug: true, logger })
+    );
+
+    expect(leakEvents(logger)).toHaveLength(0);
+    unmount();
+
+    const [event] = leakEvents(logger);
+    expect(event.effectId).toBe('leaky');
+    expect(event.leaks.map(leak => `${leak.kind}: ${leak.description}`)).toEqual([
+      'listener: "resize" listener on Window',
+      'timer: setInterval (1000ms)'
+    ]);
+    expect(event.leaks[0].stack).toContain('leakDetection.test.ts');
+    expect(event.message).toContain('[useSmartEffect:leaky] 2 resources were registered by the effect and not released');
+    expect(getEffectReport('leaky')?.leaks).toEqual({ listeners: 1, timers: 1, observers: 0, subscriptions: 0 });
+  });
+
+  test('should accept resources released by cleanup, by firing or by their signal', () => {
+    const logger = createRecorder();
+    const controller = new AbortController();
+    const { rerender, unmount } = renderHook(
+      ({ step }) =>
+        useSmartEffect(() => {
+          const onScroll = () => {};
+          const interval = setInterval(() => {}, 100);
+          window.addEventListener('scroll', onScroll, { capture: true });
+          window.addEventListener('focus', () => {}, { once: true });
+          window.addEventListener('blur', () => {}, { signal: controller.signal });
+          setTimeout(() => {}, 10);
+
+          return () => {
+            clearInterval(interval);
+            window.removeEventListener('scroll', onScroll, true);
+          };
+        }, [step], { id: 'tidy', debug: true, logger }),
+      { initialProps: { step: 1 } }
+    );
+
+    jest.advanceTimersByTime(10);
+    window.dispatchEvent(new Event('focus'));
+    controller.abort();
+    rerender({ step: 2 });
+    unmount();
+
+    const leaks = leakEvents(logger).reduce<string[]>(
+      (all, event) => all.concat(event.leaks.map(leak => leak.description)),
+      []
+    );
+    // Only the second run's once listener and timeout were still pending
+    expect(leaks).toEqual(['"focus" listener on Window', 'setTimeout (10ms)']);
+    expect(getEffectReport('tidy')?.leaks).toEqual({ listeners: 1, timers: 1, observers: 0, subscriptions: 0 });
+  });
+
+  test('should track subscriptions on dependencies and observers', () => {
+    const logger = createRecorder();
+    const store = createStore();
+    const node = document.createElement('div');
+    const { unmount } = renderHook(() =>
+      useSmartEffect(() => {
+        store.subscribe(() => {});
+        new MutationObserver(() => {}).observe(node, { childList: true });
+      }, { store, node }, { id: 'subscriber', debug: true, logger })
+    );
+
+    expect(Object.prototype.hasOwnProperty.call(store, 'subscribe')).toBe(true);
+    unmount();
+
+    expect(leakEvents(logger)[0].leaks.map(leak => leak.description)).toEqual([
+      'subscription to dependency "store"',
+      'MutationObserver observing HTMLDivElement'
+    ]);
+    expect(store.listeners.size).toBe(1);
+  });
+
+  test('should not report released subscriptions', () => {
+    const logger = createRecorder();
+    const store = createStore();
+    const { unmount } = renderHook(() =>
+      useSmartEffect(() => store.subscribe(() => {}), [store], { debug: true, logger })
+    );
+
+    unmount();
+
+    expect(leakEvents(logger)).toHaveLength(0);
+    expect(store.listeners.size).toBe(0);
+  });
+
+  test('should only instrument while debug effects run', () => {
+    const { setTimeout: originalSetTimeout } = window;
+    const { addEventListener } = EventTarget.prototype;
+    const windowAddEventListener = window.addEventListener;
+    let inside: unknown;
+
+    renderHook(() => useSmartEffect(() => {
+      inside = window.setTimeout;
+    }, [], { debug: true, logger: createRecorder() }));
+    expect(inside).not.toBe(originalSetTimeout);
+    expect(window.setTimeout).toBe(originalSetTimeout);
+    expect(EventTarget.prototype.addEventListener).toBe(addEventListener);
+    expect(window.addEventListener).toBe(windowAddEventListener);
+
+    renderHook(() => useSmartEffect(() => {
+      inside = window.setTimeout;
+    }, []));
+    expect(inside).toBe(originalSetTimeout);
+  });
+});
@@ -0,0 +1,154 @@
+import { renderHook, act } from '@testing-library/react';
+import {
+  useSmartEffect,
+  useSmartAsyncEffect,
+  createHttpSink,
+  configureLogger,
+  createConsoleLogger,
+  createJsonLinesLogger,
+  silentLogger,
+  enableDevTools,
+  clearEffectReports,
+  generateEffectGraph,
+  EffectLogEvent,
+  EffectLogger,
+  LogLevel
+} from '../src';
+
+function createRecorder(): EffectLogger & { entries: Array<{ level: LogLevel; event: EffectLogEvent }> } {
+  const entries: Array<{ level: LogLevel; event: EffectLogEvent }> = [];
+  return { entries, log: (level, event) => entries.push({ level, event }) };
+}
+
+describe('effect logging', () => {
+  afterEach(() => {
+    configureLogger(null);
+    jest.restoreAllMocks();
+  });
+
+  test('should send structured events to a per-effect logger', () => {
+    const logger = createRecorder();
+    const { rerender } = renderHook(
+      ({ filters }) => useSmartEffect(() => {}, { filters }, { id: 'logged', debug: true, logger }),
+      { initialProps: { filters: { status: 'open' } } }
+    );
+    rerender({ filters: { status: 'closed' } });
+
+    expect(logger.entries.map(({ level, event }) => `${level} ${event.type}`)).toEqual([
+      'warn analysis-warning',
+      'debug effect-will-run',
+      'warn analysis-warning',
+      'debug deps-changed',
+      'debug effect-will-run'
+    ]);
+    expect(logger.entries[3].event).toEqual({
+      type: 'deps-changed',
+      effectId: 'logged',
+      changes: [{
+        name: 'filters',
+        prev: { status: 'open' },
+        next: { status: 'closed' },
+        diff: ['filters.status: "open" → "closed"']
+      }]
+    });
+  });
+
+  test('should report skipped runs with their reason', () => {
+    const logger = createRecorder();
+    renderHook(() => useSmartEffect(() => {}, [1], { debug: true, skipFirstRender: true, logger }));
+
+    expect(logger.entries).toContainEqual({
+      level: 'debug',
+      event: expect.objectContaining({ type: 'effect-skipped', reason: 'first-render' })
+    });
+  });
+
+  test('should silence every effect through the global logger', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    configureLogger(silentLogger);
+
+    renderHook(() => useSmartEffect(() => {}, [{}], { debug: true }));
+
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('should filter console output by level', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    configureLogger(createConsoleLogger({ level: 'warn' }));
+
+    renderHook(() => useSmartEffect(() => {}, [{}], { id: 'console', debug: true }));
+
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[useSmartEffect:console] Dependency Analysis'));
+  });
+
+  test('should write one JSON object per event', () => {
+    const lines: string[] = [];
+    const logger = createJsonLinesLogger({ write: line => lines.push(line) });
+
+    renderHook(() => useSmartEffect(() => {}, [function onSave() {}], { id: 'json', debug: true, logger }));
+
+    const events = lines.map(line => JSON.parse(line));
+    expect(events[0]).toMatchObject({
+      level: 'warn',
+      type: 'analysis-warning',
+      effectId: 'json',
+      analysis: { functions: ['[Function onSave]'] }
+    });
+    expect(events[1]).toMatchObject({ level: 'debug', type: 'effect-will-run', isFirstRender: true });
+    expect(typeof events[1].timestamp).toBe('number');
+  });
+
+  test('should log async rejections and failed sink deliveries', async () => {
+    const error = new Error('offline');
+    const logger = createRecorder();
+    const globalLogger = createRecorder();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const originalFetch = (global as any).fetch;
+    (global as any).fetch = jest.fn(() => Promise.reject(error));
+    configureLogger(globalLogger);
+
+    renderHook(() => useSmartAsyncEffect(() => Promise.reject(error), [], { id: 'failing', logger }));
+    createHttpSink('http://localhost/effects').write([]);
+    await act(async () => {});
+    (global as any).fetch = originalFetch;
+
+    expect(logger.entries).toContainEqual({
+      level: 'error',
+      event: { type: 'effect-rejected', effectId: 'failing', message: '[useSmartAsyncEffect:failing] Effect rejected', error }
+    });
+    expect(globalLogger.entries).toEqual([{
+      level: 'warn',
+      event: {
+        type: 'sink-failed',
+        message: '[react-smart-effect] Failed to send 0 reports to http://localhost/effects',
+        error
+      }
+    }]);
+    expect(consoleError).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('should hand the effect graph to the logger', () => {
+    const logger = createRecorder();
+    enableDevTools(true);
+    clearEffectReports();
+
+    renderHook(() => useSmartEffect(() => {}, [1], { id: 'graph' }));
+    generateEffectGraph({ history: true, logger });
+    enableDevTools(false);
+
+    expect(logger.entries).toEqual([{
+      level: 'info',
+      event: expect.objectContaining({
+        type: 'effect-graph',
+        reports: [expect.objectContaining({ id: 'graph' })],
+        history: { graph: [expect.objectContaining({ id: 'graph' })] }
+      })
+    }]);
+  });
+});
@@ -0,0 +1,76 @@
+import { renderHook } from '@testing-library/react';
+import { useState } from 'react';
+import { useSmartEffect, configureLoopDetection } from '../src';
+
+function useRunawayEffect(options: Parameters<typeof useSmartEffect>[2]) {
+  const [count, setCount] = useState(0);
+  const effect = jest.fn(() => setCount(c => c + 1));
+  useSmartEffect(effect, { count }, options);
+  return count;
+}
+
+describe('loop detection', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    configureLoopDetection({ enabled: false, maxTriggers: 50, windowMs: 1000, action: 'warn' });
+  });
+
+  test('should trip the circuit breaker and report flipped dependencies', () => {
+    const { result } = renderHook(() =>
+      useRunawayEffect({ id: 'runaway', loopDetection: { maxTriggers: 5, action: 'break' } })
+    );
+
+    expect(result.current).toBe(5);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+
+    const diagnostic = warnSpy.mock.calls[0][0] as string;
+    expect(diagnostic).toContain('[useSmartEffect:runaway] Possible infinite loop: triggered 6 times');
+    expect(diagnostic).toContain('#6: count');
+    expect(diagnostic).toContain('Circuit breaker tripped');
+  });
+
+  test('should throw when configured globally with the throw action', () => {
+    configureLoopDetection({ enabled: true, maxTriggers: 3, action: 'throw' });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useRunawayEffect({}))).toThrow('Possible infinite loop');
+
+    errorSpy.mockRestore();
+  });
+
+  test('should not interfere when disabled for an effect', () => {
+    configureLoopDetection({ enabled: true, maxTriggers: 3, action: 'throw' });
+    const setCount = jest.fn();
+
+    const { rerender } = renderHook(
+      ({ value }) => useSmartEffect(setCount, [value], { loopDetection: false }),
+      { initialProps: { value: 0 } }
+    );
+    for (let i = 1; i <= 5; i++) rerender({ value: i });
+
+    expect(setCount).toHaveBeenCalledTimes(6);
+  });
+
+  test('should only watch effects without options in development by default', () => {
+    const isWatched = (env: string) => {
+      const previous = process.env.NODE_ENV;
+      process.env.NODE_ENV = env;
+      let watched = false;
+      jest.isolateModules(() => {
+        const { resolveLoopDetection } = require('../src/loopDetection');
+        watched = resolveLoopDetection() !== null;
+      });
+      process.env.NODE_ENV = previous;
+      return watched;
+    };
+
+    expect(isWatched('development')).toBe(true);
+    expect(isWatched('production')).toBe(false);
+  });
+});
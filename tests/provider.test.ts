@@ -0,0 +1,105 @@
+import { renderHook } from '@testing-library/react';
+import { createElement, ReactNode } from 'react';
+import {
+  useSmartEffect,
+  SmartEffectProvider,
+  SmartEffectProviderProps,
+  createEffectReportStore,
+  enableDevTools,
+  clearEffectReports,
+  getEffectReport
+} from '../src';
+
+function providerWrapper(props: Omit<SmartEffectProviderProps, 'children'>) {
+  return ({ children }: { children: ReactNode }) => createElement(SmartEffectProvider, props, children);
+}
+
+describe('SmartEffectProvider', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+  });
+
+  test('should apply default options below the call options', () => {
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ filters }) => useSmartEffect(effect, [filters], { skipFirstRender: false }),
+      {
+        initialProps: { filters: { status: 'open' } },
+        wrapper: providerWrapper({ defaultOptions: { deepCompare: true, skipFirstRender: true } })
+      }
+    );
+
+    rerender({ filters: { status: 'open' } });
+    expect(effect).toHaveBeenCalledTimes(1);
+
+    rerender({ filters: { status: 'closed' } });
+    expect(effect).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep reports in the provider store instead of the global one', () => {
+    const store = createEffectReportStore({ enabled: true });
+
+    renderHook(() => useSmartEffect(() => {}, [], { id: 'scoped' }), {
+      wrapper: providerWrapper({ store })
+    });
+
+    expect(store.getReport('scoped')?.timing?.effectDuration).toBeDefined();
+    expect(getEffectReport('scoped')).toBeUndefined();
+  });
+
+  test('should override the store flag with enabled', () => {
+    const store = createEffectReportStore({ enabled: true });
+
+    renderHook(() => useSmartEffect(() => {}, [], { id: 'disabled' }), {
+      wrapper: providerWrapper({ store, enabled: false })
+    });
+
+    expect(store.getReports()).toHaveLength(0);
+  });
+
+  test('should inherit the store and merge defaults in nested providers', () => {
+    const store = createEffectReportStore({ enabled: true });
+    const effect = jest.fn();
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(
+        SmartEffectProvider,
+        { store, defaultOptions: { skipFirstRender: true } },
+        createElement(SmartEffectProvider, { defaultOptions: { component: 'Inner' } }, children)
+      );
+
+    renderHook(() => useSmartEffect(effect, [], { id: 'nested' }), { wrapper });
+
+    expect(effect).not.toHaveBeenCalled();
+    expect(store.getReport('nested')).toMatchObject({ component: 'Inner', skipReason: 'first-render' });
+  });
+
+  test('should give each provider without a store its own', () => {
+    renderHook(() => useSmartEffect(() => {}, [], { id: 'isolated' }), {
+      wrapper: providerWrapper({ enabled: true })
+    });
+
+    expect(getEffectReport('isolated')).toBeUndefined();
+  });
+
+  test('should fall back to its own store when the store prop is removed', () => {
+    const store = createEffectReportStore({ enabled: true });
+    let props: Omit<SmartEffectProviderProps, 'children'> = { store, enabled: true };
+    const { rerender } = renderHook(
+      ({ page }) => useSmartEffect(() => {}, [page], { id: 'unset-store' }),
+      {
+        initialProps: { page: 1 },
+        wrapper: ({ children }: { children: ReactNode }) => createElement(SmartEffectProvider, props, children)
+      }
+    );
+
+    props = { enabled: true };
+    expect(() => rerender({ page: 2 })).not.toThrow();
+    expect(store.getHistory('unset-store')).toHaveLength(1);
+    expect(getEffectReport('unset-store')).toBeUndefined();
+  });
+});
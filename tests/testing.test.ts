@@ -0,0 +1,99 @@
+import { render } from '@testing-library/react';
+import { createElement } from 'react';
+import { useSmartEffect, getEffectReport } from '../src';
+import {
+  setupEffectTesting,
+  renderEffectSequence,
+  getTestStore,
+  EffectTestProvider,
+  effectReportSerializer
+} from '../src/testing';
+
+setupEffectTesting();
+
+describe('testing utilities', () => {
+  test('should assert on runs and skip reasons', () => {
+    renderEffectSequence(({ page }) => useSmartEffect(() => {}, [page], { id: 'paging' }), [
+      { page: 1 },
+      { page: 2 },
+      { page: 2 }
+    ]);
+
+    expect('paging').toHaveRun(2);
+    expect('paging').toHaveBeenSkippedBecause('deps-unchanged');
+    expect('paging').not.toHaveBeenSkippedBecause('first-render');
+    expect('other').not.toHaveRun();
+  });
+
+  test('should assert on changed dependencies by name or index', () => {
+    renderEffectSequence(
+      ({ userId, filters }) => useSmartEffect(() => {}, { userId, filters }, { id: 'named', deepCompare: true }),
+      [{ userId: 1, filters: { q: '' } }, { userId: 1, filters: { q: 'x' } }]
+    );
+    renderEffectSequence(({ a, b }) => useSmartEffect(() => {}, [a, b], { id: 'indexed' }), [
+      { a: 1, b: 1 },
+      { a: 2, b: 1 }
+    ]);
+
+    expect('named').toHaveChangedDeps(['filters']);
+    expect('indexed').toHaveChangedDeps([0]);
+  });
+
+  test('should keep reports in a fresh store per test', () => {
+    expect(getTestStore().getReports()).toHaveLength(0);
+
+    render(createElement(EffectTestProvider, null, createElement(() => {
+      useSmartEffect(() => {}, [], { id: 'rendered' });
+      return null;
+    })));
+
+    expect('rendered').toHaveRun(1);
+    expect(getEffectReport('rendered')).toBeUndefined();
+  });
+
+  test('should explain failed assertions', () => {
+    renderEffectSequence(() => useSmartEffect(() => {}, [], { id: 'once' }), [{}]);
+
+    expect(() => expect('once').toHaveRun(2)).toThrow('to have run 2 times, but it ran 1 times');
+  });
+
+  test('should serialize reports without volatile values', () => {
+    const { store } = renderEffectSequence(
+      ({ count }) => useSmartEffect(() => {}, { count }, { perInstance: true, id: 'counter' }),
+      [{ count: 0 }]
+    );
+    renderEffectSequence(() => useSmartEffect(() => {}, []), [{}]);
+
+    const [report, generated] = store.getReports();
+    expect(effectReportSerializer.test(report)).toBe(true);
+    expect(report).toMatchInlineSnapshot(`
+      {
+        "baseId": "counter",
+        "dependencies": {
+          "changed": [
+            true,
+          ],
+          "current": [
+            0,
+          ],
+          "names": [
+            "count",
+          ],
+          "previous": [],
+        },
+        "id": "counter@<instance>",
+        "renderCount": 1,
+        "timestamp": "<timestamp>",
+        "timing": {
+          "commitDelay": "<duration>",
+          "effectDuration": "<duration>",
+        },
+        "triggerCount": 1,
+        "triggered": true,
+      }
+    `);
+    expect(generated.id).toMatch(/^effect_/);
+    expect(effectReportSerializer.serialize(generated, {}, '', 0, [], value => JSON.stringify(value)))
+      .toContain('"id":"<generated>"');
+  });
+});
@@ -0,0 +1,133 @@
+import { renderHook, act } from '@testing-library/react';
+import {
+  useSmartAsyncEffect,
+  enableDevTools,
+  clearEffectReports,
+  getEffectReport,
+  getEffectHistory,
+  subscribeToEffectReports
+} from '../src';
+
+describe('useSmartAsyncEffect', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+  });
+
+  test('should abort the previous run when dependencies change', async () => {
+    const signals: AbortSignal[] = [];
+    const effect = jest.fn(async (signal: AbortSignal) => {
+      signals.push(signal);
+      await new Promise(() => {});
+    });
+
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartAsyncEffect(effect, deps, { id: 'abort-on-change' }),
+      { initialProps: { deps: [1] } }
+    );
+
+    expect(signals).toHaveLength(1);
+    expect(getEffectReport('abort-on-change')?.async?.status).toBe('pending');
+
+    rerender({ deps: [2] });
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  test('should record each run\'s status on the report that triggered it', async () => {
+    const { rerender } = renderHook(
+      ({ id }) => useSmartAsyncEffect(async () => {
+        if (id === 1) await new Promise(() => {});
+      }, [id], { id: 'per-run' }),
+      { initialProps: { id: 1 } }
+    );
+
+    rerender({ id: 2 });
+    await act(async () => {});
+
+    expect(getEffectHistory('per-run').map(report => report.async?.status)).toEqual(['aborted', 'resolved']);
+    expect(getEffectReport('per-run')?.dependencies.current).toEqual([2]);
+  });
+
+  test('should carry the latest outcome on later reports sent to subscribers', async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToEffectReports(listener);
+    const { rerender } = renderHook(
+      ({ id }) => useSmartAsyncEffect(async () => {
+        if (id === 2) throw new Error('failed');
+      }, [id], { id: 'carried', onError: () => {} }),
+      { initialProps: { id: 1 } }
+    );
+
+    await act(async () => {});
+    rerender({ id: 2 });
+    await act(async () => {});
+    rerender({ id: 3 });
+    unsubscribe();
+
+    expect(listener.mock.calls.map(([report]) => report.async?.status)).toEqual([undefined, 'resolved', 'rejected']);
+  });
+
+  test('should abort on unmount and record the aborted status', () => {
+    let captured: AbortSignal | undefined;
+    const { unmount } = renderHook(() =>
+      useSmartAsyncEffect(async signal => {
+        captured = signal;
+        await new Promise(() => {});
+      }, [], { id: 'abort-on-unmount' })
+    );
+
+    unmount();
+    expect(captured?.aborted).toBe(true);
+    expect(getEffectReport('abort-on-unmount')?.async?.status).toBe('aborted');
+  });
+
+  test('should run the resolved cleanup and record resolved status', async () => {
+    const cleanup = jest.fn();
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartAsyncEffect(async () => cleanup, deps, { id: 'resolved' }),
+      { initialProps: { deps: [1] } }
+    );
+
+    await act(async () => {});
+    expect(getEffectReport('resolved')?.async?.status).toBe('resolved');
+
+    rerender({ deps: [2] });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  test('should record rejections and forward them to onError', async () => {
+    const error = new Error('boom');
+    const onError = jest.fn();
+
+    renderHook(() =>
+      useSmartAsyncEffect(async () => {
+        throw error;
+      }, [], { id: 'rejected', onError })
+    );
+
+    await act(async () => {});
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(getEffectReport('rejected')?.async).toEqual({ status: 'rejected', error });
+  });
+
+  test('should not restart when deep-equal dependencies are recreated', () => {
+    const signals: AbortSignal[] = [];
+    const { rerender } = renderHook(
+      ({ deps }) =>
+        useSmartAsyncEffect(async signal => {
+          signals.push(signal);
+        }, deps, { deepCompare: true }),
+      { initialProps: { deps: [{ page: 1 }] } }
+    );
+
+    rerender({ deps: [{ page: 1 }] });
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(false);
+  });
+});
@@ -1,5 +1,18 @@
+import { StrictMode } from 'react';
 import { renderHook, act } from '@testing-library/react';
-import { useSmartEffect, useDeepEffect, analyzeDeps } from '../src';
+import {
+  useSmartEffect,
+  useDeepEffect,
+  analyzeDeps,
+  getChangedDeps,
+  normalizeDeps,
+  enableDevTools,
+  clearEffectReports,
+  getEffectReport,
+  getEffectReports,
+  getSlowestEffects
+} from '../src';
+import { useLoweredEffect } from '../src/lowered';
 
 describe('useSmartEffect', () => {
   let mockEffect: jest.Mock;
@@ -139,6 +152,44 @@ describe('useSmartEffect', () => {
     expect(mockEffect).toHaveBeenCalledTimes(2);
   });
 
+  test('should honor per-dependency comparators', () => {
+    const config = { theme: 'dark', nested: { size: 1 } };
+    const user = { id: 1, name: 'John' };
+
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, {
+        comparators: { 0: 'shallow', 1: 'key:id' }
+      }),
+      { initialProps: { deps: [config, user] as any[] } }
+    );
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    rerender({ deps: [{ ...config }, { id: 1, name: 'Jane' }] });
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    rerender({ deps: [{ ...config, nested: { size: 1 } }, user] });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+
+    rerender({ deps: [config, { id: 2, name: 'John' }] });
+    expect(mockEffect).toHaveBeenCalledTimes(3);
+  });
+
+  test('should accept named dependencies with per-name comparators', () => {
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { comparators: { filters: 'deep' } }),
+      { initialProps: { deps: { userId: 1, filters: { page: 1 } } as Record<string, unknown> } }
+    );
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    rerender({ deps: { filters: { page: 1 }, userId: 1 } });
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    rerender({ deps: { userId: 2, filters: { page: 1 } } });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+  });
+
   test('useDeepEffect should enable deep comparison by default', () => {
     const obj = { a: 1 };
 
@@ -154,6 +205,34 @@ describe('useSmartEffect', () => {
   });
 });
 
+describe('getChangedDeps', () => {
+  test('should flag changes using the resolved strategy for each dependency', () => {
+    const prev = [{ a: 1 }, { a: 1 }, { a: 1 }, 5];
+    const next = [{ a: 1 }, { a: 1 }, { a: 1 }, 6];
+
+    expect(getChangedDeps(prev, next, {
+      deepCompare: true,
+      comparators: { 1: 'is', 3: (p: number, n: number) => Math.abs(p - n) < 2 }
+    })).toEqual([false, true, false, false]);
+  });
+});
+
+describe('normalizeDeps', () => {
+  test('should keep the previous key order while the key set is unchanged', () => {
+    const first = normalizeDeps({ a: 1, b: 2 });
+    expect(first).toEqual({ values: [1, 2], names: ['a', 'b'] });
+
+    expect(normalizeDeps({ b: 3, a: 4 }, first.names)).toEqual({ values: [4, 3], names: ['a', 'b'] });
+    expect(normalizeDeps({ b: 3, c: 4 }, first.names)).toEqual({ values: [3, 4], names: ['b', 'c'] });
+  });
+
+  test('should pass dependency lists through unchanged', () => {
+    const deps = [1, 2];
+    expect(normalizeDeps(deps).values).toBe(deps);
+    expect(normalizeDeps(undefined).values).toBeUndefined();
+  });
+});
+
 describe('analyzeDeps', () => {
   test('should categorize primitive dependencies correctly', () => {
     const deps = [1, 'string', true, null, undefined];
@@ -200,4 +279,318 @@ describe('analyzeDeps', () => {
     expect(analysis.potentiallyMissing[1]).toContain('Array at index 1');
     expect(analysis.potentiallyMissing[2]).toContain('Anonymous function at index 2');
   });
+
+  test('should describe dependencies by name when names are given', () => {
+    const analysis = analyzeDeps([1, { a: 1 }], ['userId', 'filters']);
+
+    expect(analysis.names).toEqual(['userId', 'filters']);
+    expect(analysis.potentiallyMissing).toEqual(["Object 'filters'"]);
+  });
+});
+
+describe('useSmartEffect scheduling', () => {
+  let mockEffect: jest.Mock;
+  let mockCleanup: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockCleanup = jest.fn();
+    mockEffect = jest.fn(() => mockCleanup);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should debounce until dependencies settle', () => {
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { debounce: 100 }),
+      { initialProps: { deps: ['a'] } }
+    );
+
+    expect(mockEffect).not.toHaveBeenCalled();
+
+    act(() => { jest.advanceTimersByTime(50); });
+    rerender({ deps: ['ab'] });
+    act(() => { jest.advanceTimersByTime(50); });
+    rerender({ deps: ['abc'] });
+    expect(mockEffect).not.toHaveBeenCalled();
+
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+    expect(mockCleanup).not.toHaveBeenCalled();
+  });
+
+  test('should honor maxWait for debounced effects', () => {
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { debounce: 100, maxWait: 150 }),
+      { initialProps: { deps: [0] } }
+    );
+
+    for (let i = 1; i <= 4; i++) {
+      act(() => { jest.advanceTimersByTime(60); });
+      rerender({ deps: [i] });
+    }
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+  });
+
+  test('should throttle with leading and trailing runs', () => {
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { throttle: 100 }),
+      { initialProps: { deps: [0] } }
+    );
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    rerender({ deps: [1] });
+    rerender({ deps: [2] });
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+    expect(mockCleanup).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not run a throttled effect again within the interval after a trailing run', () => {
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { throttle: 100 }),
+      { initialProps: { deps: [0] } }
+    );
+
+    rerender({ deps: [1] });
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+
+    act(() => { jest.advanceTimersByTime(1); });
+    rerender({ deps: [2] });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+
+    act(() => { jest.advanceTimersByTime(98); });
+    expect(mockEffect).toHaveBeenCalledTimes(2);
+    act(() => { jest.advanceTimersByTime(1); });
+    expect(mockEffect).toHaveBeenCalledTimes(3);
+  });
+
+  test('should cancel pending runs and clean up on unmount', () => {
+    const { rerender, unmount } = renderHook(
+      ({ deps }) => useSmartEffect(mockEffect, deps, { debounce: 100, leading: true }),
+      { initialProps: { deps: [0] } }
+    );
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+    rerender({ deps: [1] });
+
+    unmount();
+    act(() => { jest.advanceTimersByTime(200); });
+
+    expect(mockEffect).toHaveBeenCalledTimes(1);
+    expect(mockCleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useSmartEffect timing', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+  });
+
+  test('should count renders and triggers and measure durations', () => {
+    const cleanup = jest.fn();
+    const { rerender } = renderHook(
+      ({ deps }) => useSmartEffect(() => cleanup, deps, { id: 'timed' }),
+      { initialProps: { deps: [1] } }
+    );
+
+    rerender({ deps: [1] });
+    rerender({ deps: [2] });
+
+    const report = getEffectReport('timed');
+    expect(report?.renderCount).toBe(3);
+    expect(report?.triggerCount).toBe(2);
+    expect(report?.timing?.effectDuration).toEqual(expect.any(Number));
+    expect(report?.timing?.cleanupDuration).toEqual(expect.any(Number));
+    expect(report?.timing?.commitDelay).toEqual(expect.any(Number));
+    expect(getSlowestEffects().map(r => r.id)).toEqual(['timed']);
+  });
+});
+
+describe('useSmartEffect ids', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+  });
+
+  test('should keep explicit ids as given', () => {
+    renderHook(() => useSmartEffect(() => {}, [], { id: 'explicit' }));
+
+    expect(getEffectReport('explicit')?.baseId).toBeUndefined();
+  });
+
+  test('should give each mount of a per-instance id its own report', () => {
+    const options = { id: 'List.tsx:List#1', perInstance: true };
+    const first = renderHook(() => useSmartEffect(() => {}, [], options));
+    renderHook(() => useSmartEffect(() => {}, [], options));
+    first.rerender();
+
+    const reports = getEffectReports();
+    expect(reports).toHaveLength(2);
+    expect(reports.every(report => report.baseId === 'List.tsx:List#1')).toBe(true);
+    expect(reports.every(report => report.id.startsWith('List.tsx:List#1@'))).toBe(true);
+    expect(reports[0].id).not.toBe(reports[1].id);
+  });
+});
+
+describe('useSmartEffect conditional execution', () => {
+  beforeEach(() => {
+    enableDevTools(true);
+    clearEffectReports();
+  });
+
+  afterEach(() => {
+    enableDevTools(false);
+  });
+
+  test('should skip disabled runs and catch up when enabled', () => {
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ user, page }) => useSmartEffect(effect, [user, page], {
+        id: 'guarded',
+        enabled: ([currentUser]) => currentUser !== null
+      }),
+      { initialProps: { user: null as string | null, page: 1 } }
+    );
+
+    expect(effect).not.toHaveBeenCalled();
+    expect(getEffectReport('guarded')).toMatchObject({ triggered: false, skipReason: 'disabled', triggerCount: 0 });
+
+    rerender({ user: 'ada', page: 1 });
+    expect(effect).toHaveBeenCalledTimes(1);
+
+    rerender({ user: 'ada', page: 1 });
+    expect(effect).toHaveBeenCalledTimes(1);
+    expect(getEffectReport('guarded')?.skipReason).toBe('deps-unchanged');
+  });
+
+  test('should wait for the next change with whenEnabled next-change', () => {
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ enabled, page }) => useSmartEffect(effect, [page], { enabled, whenEnabled: 'next-change' }),
+      { initialProps: { enabled: false, page: 1 } }
+    );
+
+    rerender({ enabled: true, page: 1 });
+    expect(effect).not.toHaveBeenCalled();
+
+    rerender({ enabled: true, page: 2 });
+    expect(effect).toHaveBeenCalledTimes(1);
+  });
+
+  test('should run immediately on enable only after a missed run', () => {
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ enabled, page }) => useSmartEffect(effect, [page], { enabled }),
+      { initialProps: { enabled: true, page: 1 } }
+    );
+
+    rerender({ enabled: false, page: 1 });
+    rerender({ enabled: true, page: 1 });
+    expect(effect).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop after maxRuns and runOnce', () => {
+    const bounded = jest.fn();
+    const once = jest.fn();
+    const { rerender } = renderHook(
+      ({ page }) => {
+        useSmartEffect(bounded, [page], { id: 'bounded', maxRuns: 2 });
+        useSmartEffect(once, [page], { runOnce: true });
+      },
+      { initialProps: { page: 1 } }
+    );
+
+    rerender({ page: 2 });
+    rerender({ page: 3 });
+
+    expect(bounded).toHaveBeenCalledTimes(2);
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(getEffectReport('bounded')).toMatchObject({ skipReason: 'max-runs', triggerCount: 2 });
+  });
+
+  test('should count executions rather than triggers for maxRuns', () => {
+    jest.useFakeTimers();
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ page }) => useSmartEffect(effect, [page], { id: 'debounced-bounded', debounce: 100, maxRuns: 2 }),
+      { initialProps: { page: 1 } }
+    );
+
+    rerender({ page: 2 });
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(effect).toHaveBeenCalledTimes(1);
+
+    rerender({ page: 3 });
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(effect).toHaveBeenCalledTimes(2);
+
+    rerender({ page: 4 });
+    act(() => { jest.advanceTimersByTime(100); });
+    expect(effect).toHaveBeenCalledTimes(2);
+    expect(getEffectReport('debounced-bounded')?.skipReason).toBe('max-runs');
+    jest.useRealTimers();
+  });
+
+  test('should set runOnce and maxRuns effects up again after a StrictMode cleanup', () => {
+    const log: string[] = [];
+    const { rerender } = renderHook(
+      ({ page }) => useSmartEffect(() => {
+        log.push(`setup ${page}`);
+        return () => log.push(`cleanup ${page}`);
+      }, [page], { runOnce: true }),
+      { initialProps: { page: 1 }, wrapper: StrictMode }
+    );
+
+    rerender({ page: 2 });
+    expect(log).toEqual(['setup 1', 'cleanup 1', 'setup 1']);
+  });
+});
+
+describe('useLoweredEffect', () => {
+  test('should keep skipFirstRender and deepCompare semantics', () => {
+    const effect = jest.fn();
+    const { rerender } = renderHook(
+      ({ deps }) => useLoweredEffect(effect, deps, { skipFirstRender: true, deepCompare: true }),
+      { initialProps: { deps: [{ a: 1 }] as unknown[] } }
+    );
+
+    expect(effect).not.toHaveBeenCalled();
+
+    rerender({ deps: [{ a: 1 }] });
+    expect(effect).not.toHaveBeenCalled();
+
+    rerender({ deps: [{ a: 2 }] });
+    expect(effect).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not run cleanup when a render is skipped', () => {
+    const cleanup = jest.fn();
+    const { rerender } = renderHook(
+      ({ deps }) => useLoweredEffect(() => cleanup, deps, { compareFunction: (prev, next) => prev[0] === next[0] }),
+      { initialProps: { deps: [1, 'a'] } }
+    );
+
+    rerender({ deps: [1, 'b'] });
+    expect(cleanup).not.toHaveBeenCalled();
+
+    rerender({ deps: [2, 'b'] });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,102 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { vitePluginSmartEffect } from '../src/plugins/vite';
+
+const source = `
+  function Profile({ user }) {
+    useSmartEffect(() => {
+      fetchUser(user);
+    }, []);
+  }
+`;
+
+function callHook(plugin: any, name: string, ...args: unknown[]) {
+  const hook = plugin[name];
+  return (typeof hook === 'function' ? hook : hook.handler).apply({}, args);
+}
+
+describe('vite plugin diagnostics', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test('should write the findings of the build as SARIF at buildEnd', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'smart-effect-')), 'reports', 'effects.sarif');
+    const plugin = vitePluginSmartEffect({ report: { file, format: 'sarif' } });
+
+    callHook(plugin, 'buildStart');
+    await callHook(plugin, 'transform', source, join(process.cwd(), 'src/Profile.tsx'));
+    await callHook(plugin, 'transform', source, join(process.cwd(), 'src/Other.tsx'));
+    callHook(plugin, 'buildEnd');
+
+    const results = JSON.parse(readFileSync(file, 'utf8')).runs[0].results;
+    expect(results.map((result: any) => result.locations[0].physicalLocation.artifactLocation.uri))
+      .toEqual(['src/Profile.tsx', 'src/Other.tsx']);
+  });
+
+  test('should send findings to the dev server overlay', async () => {
+    const send = jest.fn();
+    const plugin = vitePluginSmartEffect();
+
+    callHook(plugin, 'configureServer', { ws: { send } });
+    await callHook(plugin, 'transform', source, join(process.cwd(), 'src/Profile.tsx'));
+
+    expect(send).toHaveBeenCalledWith({
+      type: 'error',
+      err: expect.objectContaining({
+        plugin: 'vite-plugin-react-smart-effect',
+        loc: expect.objectContaining({ line: 4 }),
+        message: expect.stringContaining("Missing dependency 'user' (missing-dependency)")
+      })
+    });
+  });
+});
+
+describe('vite plugin transform', () => {
+  const id = join(process.cwd(), 'src/Profile.tsx');
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test('should skip modules that cannot use smart effects', async () => {
+    const plugin = vitePluginSmartEffect();
+
+    expect(await callHook(plugin, 'transform', 'export const answer = 42;', id)).toBeNull();
+  });
+
+  test('should reuse results for unchanged content', async () => {
+    const plugin = vitePluginSmartEffect();
+
+    const first = await callHook(plugin, 'transform', source, id);
+    const second = await callHook(plugin, 'transform', source, id);
+    expect(second).toEqual(first);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    await callHook(plugin, 'transform', source.replace('[]', '[user]'), id);
+    expect(warn).toHaveBeenCalledTimes(1);
+    await callHook(plugin, 'transform', source.replace('user);', 'user, page);'), id);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  test('should never re-emit code in analyze-only mode', async () => {
+    const send = jest.fn();
+    const plugin = vitePluginSmartEffect({ analyzeOnly: true });
+
+    callHook(plugin, 'configureServer', { ws: { send } });
+    expect(await callHook(plugin, 'transform', source, id)).toBeNull();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});